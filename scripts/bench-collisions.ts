@@ -0,0 +1,77 @@
+/**
+ * Compares brute-force bullet-vs-enemy collision checks with the spatial
+ * grid broadphase used by GameSimulation.
+ *
+ *   npm run bench
+ */
+import { CANVAS_HEIGHT, CANVAS_WIDTH, COLLISION_CELL_SIZE } from '@/lib/game/constants';
+import { SeededRandom } from '@/lib/game/random';
+import { UniformGrid, overlaps, type Bounds } from '@/lib/game/uniform-grid';
+
+const ITERATIONS = 200;
+const SCENARIOS: Array<[bullets: number, enemies: number]> = [
+  [100, 20],
+  [1000, 50],
+  [2000, 100],
+  [5000, 200]
+];
+
+function scatter(random: SeededRandom, count: number, width: number, height: number): Bounds[] {
+  return Array.from({ length: count }, () => ({
+    x: random.range(0, CANVAS_WIDTH - width),
+    y: random.range(0, CANVAS_HEIGHT - height),
+    width,
+    height
+  }));
+}
+
+function bruteForce(bullets: Bounds[], enemies: Bounds[]) {
+  let hits = 0;
+  for (const bullet of bullets) {
+    for (const enemy of enemies) {
+      if (overlaps(bullet, enemy)) hits++;
+    }
+  }
+  return hits;
+}
+
+function broadphase(grid: UniformGrid<Bounds>, bullets: Bounds[], enemies: Bounds[]) {
+  let hits = 0;
+  grid.clear();
+  enemies.forEach(enemy => grid.insert(enemy));
+  for (const bullet of bullets) {
+    hits += grid.query(bullet).length;
+  }
+  return hits;
+}
+
+function time(run: () => number) {
+  // Warm up so the JIT has compiled both paths before timing
+  let result = run();
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    result = run();
+  }
+  return { ms: (performance.now() - start) / ITERATIONS, result };
+}
+
+const random = new SeededRandom(1);
+const grid = new UniformGrid<Bounds>(COLLISION_CELL_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT, bounds => bounds);
+
+console.log('bullets  enemies  brute (ms/tick)  grid (ms/tick)  speedup');
+for (const [bulletCount, enemyCount] of SCENARIOS) {
+  const bullets = scatter(random, bulletCount, 4, 8);
+  const enemies = scatter(random, enemyCount, 40, 40);
+
+  const brute = time(() => bruteForce(bullets, enemies));
+  const gridded = time(() => broadphase(grid, bullets, enemies));
+  if (brute.result !== gridded.result) {
+    throw new Error(`Hit count mismatch: ${brute.result} vs ${gridded.result}`);
+  }
+
+  console.log(
+    `${String(bulletCount).padStart(7)}  ${String(enemyCount).padStart(7)}  ` +
+    `${brute.ms.toFixed(3).padStart(15)}  ${gridded.ms.toFixed(3).padStart(14)}  ` +
+    `${(brute.ms / gridded.ms).toFixed(1).padStart(6)}x`
+  );
+}
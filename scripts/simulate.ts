@@ -0,0 +1,83 @@
+/**
+ * Plays headless runs with random input on every difficulty and player
+ * setup, then checks that each run's replay survives an encode/decode round
+ * trip and reproduces the recorded score. Exits non-zero on a mismatch.
+ *
+ *   npm run simulate
+ */
+import { DIFFICULTY_LEVELS, type Difficulty } from '@/lib/game/difficulty';
+import { InputFlag, PLAYER_INPUT_BITS, throttleInput } from '@/lib/game/input';
+import { SeededRandom } from '@/lib/game/random';
+import { ReplayRecorder, decodeReplay, encodeReplay, verifyReplay } from '@/lib/game/replay';
+import { GameSimulation, type PlayerSetup } from '@/lib/game/simulation';
+
+const RUNS = 2;
+const MAX_TICKS = 60 * 60 * 5;
+// Ticks each random input is held for, like a player holding keys
+const HOLD_TICKS = 20;
+
+const SETUPS: PlayerSetup[] = [
+  { count: 1, sharedLives: false },
+  { count: 2, sharedLives: false },
+  { count: 2, sharedLives: true }
+];
+
+// Random flags for every player, mostly shooting, sometimes at part throttle
+function randomInput(random: SeededRandom, players: number) {
+  let input = 0;
+  for (let slot = 0; slot < players; slot++) {
+    let flags = random.int(InputFlag.FORMATION << 1);
+    if (random.next() < 0.7) flags |= InputFlag.SHOOT;
+    input |= flags << (slot * PLAYER_INPUT_BITS);
+    if (random.next() < 0.3) input |= throttleInput(slot, random.next(), random.next());
+  }
+  return input;
+}
+
+function simulate(seed: number, difficulty: Difficulty, adaptive: boolean, players: PlayerSetup) {
+  const simulation = new GameSimulation();
+  const recorder = new ReplayRecorder(seed, difficulty, adaptive, players);
+  const random = new SeededRandom(seed);
+  simulation.reset(seed, difficulty, adaptive, players);
+
+  let input = 0;
+  for (let tick = 0; tick < MAX_TICKS && !simulation.isGameOver; tick++) {
+    if (tick % HOLD_TICKS === 0) input = randomInput(random, players.count);
+    recorder.record(input);
+    simulation.tick(input);
+  }
+
+  const replay = decodeReplay(encodeReplay(recorder.finish(simulation.stats.score)));
+  return { stats: simulation.stats, verified: replay !== null && verifyReplay(replay) };
+}
+
+let failures = 0;
+console.log('difficulty  adaptive  players    runs  avg wave  avg score  replays');
+for (const difficulty of DIFFICULTY_LEVELS) {
+  for (const adaptive of [false, true]) {
+    for (const players of SETUPS) {
+      let waves = 0;
+      let score = 0;
+      let verified = 0;
+      for (let run = 0; run < RUNS; run++) {
+        const result = simulate(run + 1, difficulty, adaptive, players);
+        waves += result.stats.wave;
+        score += result.stats.score;
+        if (result.verified) verified++;
+      }
+      failures += RUNS - verified;
+
+      const label = players.count > 1 ? `2P${players.sharedLives ? ' shared' : ''}` : '1P';
+      console.log(
+        `${difficulty.padEnd(10)}  ${String(adaptive).padEnd(8)}  ${label.padEnd(9)}  ${String(RUNS).padStart(4)}  ` +
+        `${(waves / RUNS).toFixed(1).padStart(8)}  ${Math.round(score / RUNS).toString().padStart(9)}  ` +
+        `${verified}/${RUNS}`.padStart(7)
+      );
+    }
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} replay(s) failed to reproduce their run`);
+  process.exit(1);
+}
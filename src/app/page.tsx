@@ -1,8 +1,18 @@
 "use client";
 
+import { use } from "react";
 import SpaceGame from "@/components/SpaceGame";
+import { parseSeed } from "@/lib/game/random";
+
+interface HomeProps {
+  searchParams: Promise<{ seed?: string | string[] }>;
+}
+
+export default function Home({ searchParams }: HomeProps) {
+  // ?seed=<number or word> starts every run from the same seed
+  const { seed } = use(searchParams);
+  const runSeed = parseSeed(Array.isArray(seed) ? seed[0] : seed);
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-black flex items-center justify-center p-4">
       <div className="w-full max-w-6xl">
@@ -16,11 +26,14 @@ export default function Home() {
         </div>
         
         <div className="flex justify-center">
-          <SpaceGame />
+          <SpaceGame seed={runSeed} />
         </div>
         
         <div className="text-center mt-6 text-gray-500">
-          <p className="mb-2">Controls: WASD to move • SPACE to shoot • P to pause</p>
+          <p className="mb-2">Controls: WASD to move • SPACE to shoot • B to bomb • F to change drone formation • P to pause</p>
+          <p className="mb-2">Player 2: Arrows to move • ENTER to shoot • RIGHT SHIFT to bomb • / to change drone formation</p>
+          <p className="mb-2">Gamepad: stick or D-pad to move • A or RT to shoot • B to bomb • X to change drone formation • START or Y to pause</p>
+          <p className="mb-2">` toggles the debug overlay • Add ?seed=&lt;number or word&gt; to the address to replay the same run</p>
           <p>Collect power-ups and survive as long as possible!</p>
         </div>
       </div>
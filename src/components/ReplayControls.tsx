@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useState } from 'react';
+import { FastForward, Film, Pause, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import type { ReplayStatus } from '@/lib/game/replay';
+
+const SPEEDS = [1, 2, 4, 8];
+
+interface ReplayControlsProps {
+  status: ReplayStatus;
+  onWatch: () => void;
+  onTogglePlayback: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (ticks: number, tickDuration: number) => {
+  const totalSeconds = Math.floor((ticks * tickDuration) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  status,
+  onWatch,
+  onTogglePlayback,
+  onSpeedChange,
+  onSeek,
+  onExit
+}) => {
+  // Where the timeline is being dragged to. Seeking back re-simulates from
+  // the start, so the seek only happens once the drag is let go.
+  const [preview, setPreview] = useState<number | null>(null);
+
+  if (!status.active) {
+    return (
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2">
+        <Button variant="secondary" onClick={onWatch}>
+          <Film />
+          Watch replay
+        </Button>
+      </div>
+    );
+  }
+
+  const nextSpeed = SPEEDS[(SPEEDS.indexOf(status.speed) + 1) % SPEEDS.length];
+  const tick = preview ?? status.tick;
+
+  return (
+    <div className="absolute bottom-4 left-4 right-4 flex items-center gap-3 rounded-lg bg-black/70 px-4 py-2 text-sm text-white">
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={onTogglePlayback}
+        aria-label={status.playing ? 'Pause replay' : 'Play replay'}
+      >
+        {status.playing ? <Pause /> : <Play />}
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onSpeedChange(nextSpeed)}
+        aria-label="Change replay speed"
+      >
+        <FastForward />
+        {status.speed}x
+      </Button>
+      <span className="tabular-nums text-gray-300">
+        {formatTime(tick, status.tickDuration)}
+      </span>
+      <Slider
+        className="flex-1"
+        min={0}
+        max={status.totalTicks}
+        step={1}
+        value={[tick]}
+        onValueChange={([value]) => setPreview(value)}
+        onValueCommit={([value]) => {
+          setPreview(null);
+          onSeek(value);
+        }}
+        aria-label="Replay timeline"
+      />
+      <span className="tabular-nums text-gray-300">
+        {formatTime(status.totalTicks, status.tickDuration)}
+      </span>
+      {status.verified !== null && (
+        <span className={status.verified ? 'text-green-400' : 'text-red-400'}>
+          {status.verified ? 'Score verified' : 'Score mismatch'}
+        </span>
+      )}
+      <Button size="icon" variant="ghost" onClick={onExit} aria-label="Exit replay">
+        <X />
+      </Button>
+    </div>
+  );
+};
+
+export default ReplayControls;
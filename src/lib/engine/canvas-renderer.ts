@@ -0,0 +1,852 @@
+import { POWER_UP_ARCHETYPES, POWER_UP_TYPES } from '@/lib/game/archetypes';
+import { getBossDefinition } from '@/lib/game/boss-catalog';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, FIXED_TIMESTEP } from '@/lib/game/constants';
+import { DIFFICULTIES } from '@/lib/game/difficulty';
+import type { Health, PlayerControl, Transform } from '@/lib/game/ecs/components';
+import { World, type With } from '@/lib/game/ecs/world';
+import type { SimulationEvent } from '@/lib/game/events';
+import { createTransform, type PlayerEntity } from '@/lib/game/prefabs';
+import type { Pool } from '@/lib/game/pool';
+import { SeededRandom, generateSeed } from '@/lib/game/random';
+import type { GameSimulation } from '@/lib/game/simulation';
+import { COMBO_WINDOW } from '@/lib/game/systems/combo';
+import { hasActivePowerUp, powerUpStacks } from '@/lib/game/systems/power-ups';
+import { GRAZE_METER_MAX, OVERDRIVE_DURATION } from '@/lib/game/systems/grazing';
+import { lifetimeSystem } from '@/lib/game/systems/lifetime';
+import { REVIVE_RANGE, REVIVE_TIME, lifePool } from '@/lib/game/systems/lives';
+import { movementSystem, snapshotSystem } from '@/lib/game/systems/movement';
+import { WAVE_ANNOUNCE_DURATION } from '@/lib/game/systems/waves';
+import type { Vector2D } from '@/lib/game/types';
+import { WEAPON_TYPES, getWeaponDefinition } from '@/lib/game/weapon-catalog';
+import { GameState, type RenderView } from './types';
+
+type Particle = With<'transform' | 'velocity' | 'lifetime' | 'sprite'>;
+
+const EXPLOSION_COLORS = ['#ff4444', '#ff8844', '#ffaa44'];
+const HIT_COLORS = ['#ffffff', '#ffff44'];
+const GRAZE_COLORS = ['#44ffff', '#ffffff'];
+
+const HEALTH_BAR_WIDTH = 200;
+const HEALTH_BAR_HEIGHT = 20;
+const PLAYER_PANEL_WIDTH = 220;
+
+/**
+ * Draws the simulation onto a 2D canvas. Particle effects are purely
+ * cosmetic, so they live in the renderer's own entity world rather than in
+ * the simulation and are spawned from simulation events.
+ */
+export class CanvasRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private effects = new World();
+  private particles: Pool<Particle>;
+  // Cosmetic randomness is kept off the simulation's stream so effects
+  // never change the outcome of a run
+  private random = new SeededRandom(generateSeed());
+  // Strength of the full-screen bomb flash, fading to 0
+  private flash = 0;
+
+  constructor(canvas: HTMLCanvasElement, particleCapacity = 4096) {
+    this.ctx = canvas.getContext('2d')!;
+    this.particles = this.effects.createPool<Particle>(() => ({
+      id: 0,
+      active: false,
+      transform: createTransform(),
+      velocity: { x: 0, y: 0 },
+      lifetime: { remaining: 0, total: 0 },
+      sprite: { shape: 'particle', color: '', symbol: '' }
+    }), particleCapacity);
+  }
+
+  handleEvent(event: SimulationEvent) {
+    switch (event.type) {
+      case 'enemyHit':
+      case 'playerHit':
+        this.createExplosion(event.x, event.y, 'hit');
+        break;
+      case 'graze':
+      case 'playerRevived':
+        this.createExplosion(event.x, event.y, 'graze');
+        break;
+      case 'enemyDestroyed':
+      case 'playerRammed':
+      case 'droneDestroyed':
+      case 'bossPhaseChanged':
+        this.createExplosion(event.x, event.y, 'explosion');
+        break;
+      case 'bossDefeated':
+        // A chain of blasts across the hull
+        for (let i = 0; i < 6; i++) {
+          this.createExplosion(
+            event.x + this.random.range(-60, 60),
+            event.y + this.random.range(-40, 40),
+            'explosion'
+          );
+        }
+        break;
+      case 'bombDetonated':
+        this.flash = 1;
+        // Blasts across the whole playfield, plus one on the ship
+        for (let row = 0; row < 4; row++) {
+          for (let column = 0; column < 6; column++) {
+            this.createExplosion(
+              (column + this.random.range(0.2, 0.8)) * (CANVAS_WIDTH / 6),
+              (row + this.random.range(0.2, 0.8)) * (CANVAS_HEIGHT / 4),
+              'explosion'
+            );
+          }
+        }
+        this.createExplosion(event.x, event.y, 'hit');
+        break;
+      case 'playerDestroyed':
+        for (let i = 0; i < 3; i++) {
+          this.createExplosion(
+            event.x + this.random.range(-20, 20),
+            event.y + this.random.range(-20, 20),
+            'explosion'
+          );
+        }
+        break;
+    }
+  }
+
+  clear() {
+    this.effects.clear();
+    this.flash = 0;
+  }
+
+  update() {
+    snapshotSystem(this.effects);
+    movementSystem(this.effects);
+    lifetimeSystem(this.effects, FIXED_TIMESTEP);
+    this.flash = Math.max(0, this.flash - 0.04);
+    
+    // Recycle expired particles
+    this.effects.sweep();
+  }
+
+  private createExplosion(x: number, y: number, type: 'hit' | 'explosion' | 'graze') {
+    const particleCount = type === 'explosion' ? 15 : type === 'hit' ? 8 : 4;
+    const colors = type === 'explosion' ? EXPLOSION_COLORS : type === 'hit' ? HIT_COLORS : GRAZE_COLORS;
+    
+    for (let i = 0; i < particleCount; i++) {
+      const particle = this.effects.spawn(this.particles);
+      if (!particle) return;
+      
+      const angle = (Math.PI * 2 * i) / particleCount;
+      const speed = this.random.range(2, 5);
+      const life = this.random.range(300, 500);
+      const size = this.random.range(2, 5);
+      
+      // Particles are positioned by their center
+      const { transform } = particle;
+      transform.x = x;
+      transform.y = y;
+      transform.prevX = x;
+      transform.prevY = y;
+      transform.width = size;
+      transform.height = size;
+      particle.velocity.x = Math.cos(angle) * speed;
+      particle.velocity.y = Math.sin(angle) * speed;
+      particle.lifetime.remaining = life;
+      particle.lifetime.total = life;
+      particle.sprite.color = this.random.pick(colors);
+    }
+  }
+
+  render(view: RenderView, alpha: number) {
+    // Clear canvas
+    this.ctx.fillStyle = '#000011';
+    this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    
+    // Draw stars background
+    this.drawStars();
+    
+    if (view.state === GameState.MENU) {
+      this.drawMenu(view);
+    } else if (view.state === GameState.PLAYING || view.state === GameState.PAUSED) {
+      this.drawGame(view, alpha);
+      if (view.state === GameState.PAUSED) {
+        this.drawPauseOverlay(view);
+      }
+    } else if (view.state === GameState.GAME_OVER) {
+      this.drawGame(view, alpha);
+      this.drawGameOverOverlay(view);
+    } else if (view.state === GameState.REPLAY) {
+      this.drawGame(view, alpha);
+      this.drawReplayOverlay();
+    }
+  }
+
+  private drawStars() {
+    this.ctx.fillStyle = '#ffffff';
+    for (let i = 0; i < 100; i++) {
+      const x = (i * 97) % CANVAS_WIDTH;
+      const y = (i * 73) % CANVAS_HEIGHT;
+      const size = (i % 3) + 1;
+      this.ctx.fillRect(x, y, size, size);
+    }
+  }
+
+  private interpolate(transform: Transform, alpha: number): Vector2D {
+    return {
+      x: transform.prevX + (transform.x - transform.prevX) * alpha,
+      y: transform.prevY + (transform.y - transform.prevY) * alpha
+    };
+  }
+
+  private drawGame(view: RenderView, alpha: number) {
+    const { simulation } = view;
+
+    // Draw particles
+    this.effects.each(['transform', 'sprite', 'lifetime'], particle => {
+      const { width, height } = particle.transform;
+      const { x, y } = this.interpolate(particle.transform, alpha);
+      this.ctx.save();
+      this.ctx.globalAlpha = particle.lifetime.remaining / particle.lifetime.total;
+      this.ctx.fillStyle = particle.sprite.color;
+      this.ctx.fillRect(x - width / 2, y - height / 2, width, height);
+      this.ctx.restore();
+    });
+    
+    // Draw entities; the world visits players, enemies, projectiles and
+    // pickups in that order, which is also back-to-front
+    simulation.world.each(['transform', 'sprite'], entity => {
+      this.drawEntity(entity, simulation, alpha);
+    });
+    
+    if (this.flash > 0) {
+      this.ctx.fillStyle = `rgba(255, 255, 220, ${this.flash * 0.7})`;
+      this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    }
+    
+    this.drawWaveAnnouncement(simulation);
+    this.drawHUD(view);
+    this.drawBossHealth(simulation);
+    if (view.debug) {
+      this.drawDebugOverlay(simulation);
+    }
+  }
+
+  private drawWaveAnnouncement(simulation: GameSimulation) {
+    const { waves } = simulation;
+    if (waves.phase !== 'announcing') return;
+    
+    // Fade out over the last third of the announcement
+    const progress = (simulation.now() - waves.phaseStart) / WAVE_ANNOUNCE_DURATION;
+    this.ctx.save();
+    this.ctx.globalAlpha = Math.max(0, Math.min(1, 3 - progress * 3));
+    
+    const { boss } = waves.definition;
+    this.ctx.fillStyle = boss ? '#ff4444' : '#ffffff';
+    this.ctx.font = '48px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(boss ? 'WARNING' : `WAVE ${simulation.stats.wave}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 40);
+    
+    if (boss) {
+      this.ctx.fillStyle = '#ffaaaa';
+      this.ctx.font = '24px Arial';
+      this.ctx.fillText(`${getBossDefinition(boss.type).name} approaching`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    } else if (waves.definition.name) {
+      this.ctx.fillStyle = '#aaaaaa';
+      this.ctx.font = '24px Arial';
+      this.ctx.fillText(waves.definition.name, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    }
+    this.ctx.restore();
+  }
+
+  private drawEntity(entity: With<'transform' | 'sprite'>, simulation: GameSimulation, alpha: number) {
+    const { transform, sprite } = entity;
+    const { width, height } = transform;
+    const { x, y } = this.interpolate(transform, alpha);
+
+    switch (sprite.shape) {
+      case 'ship':
+        // A co-op partner out of lives waits to be revived where it went down
+        if (entity.playerControl?.respawnAt === Infinity && !simulation.isGameOver) {
+          this.drawReviveMarker(entity.playerControl, sprite.color, x + width / 2, y + height / 2);
+          break;
+        }
+        // Gone until it respawns, then blinks while invulnerable
+        if (entity.playerControl?.respawnAt !== null) break;
+        if (entity.health && simulation.now() < entity.health.invulnerableUntil &&
+            Math.floor(simulation.now() / 100) % 2 === 0) {
+          break;
+        }
+
+        // Check for shield effect
+        if (entity.playerControl && hasActivePowerUp(entity.playerControl.powerUps, 'shield', simulation.now())) {
+          this.ctx.strokeStyle = '#44aaff';
+          this.ctx.lineWidth = 3;
+          this.ctx.strokeRect(x - 5, y - 5, width + 10, height + 10);
+        }
+        
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+        
+        // Draw player details
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.fillRect(x + 20, y + 10, 10, 30);
+        this.ctx.fillRect(x + 10, y + 20, 30, 10);
+
+        // Only the hitbox at the core takes hits
+        if (entity.hitbox) {
+          const { hitbox } = entity;
+          this.ctx.strokeStyle = entity.graze && simulation.now() < entity.graze.overdriveUntil ? '#44ffff' : '#ff44ff';
+          this.ctx.lineWidth = 2;
+          this.ctx.strokeRect(x + (width - hitbox.width) / 2, y + (height - hitbox.height) / 2, hitbox.width, hitbox.height);
+        }
+        break;
+        
+      case 'hull':
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+        
+        // Health bar once an enemy has survived a hit
+        if (entity.health && entity.health.current < entity.health.max) {
+          const barHeight = 4;
+          const healthPercent = entity.health.current / entity.health.max;
+          
+          this.ctx.fillStyle = '#333333';
+          this.ctx.fillRect(x, y - 8, width, barHeight);
+          
+          this.ctx.fillStyle = '#ff4444';
+          this.ctx.fillRect(x, y - 8, width * healthPercent, barHeight);
+        }
+        break;
+        
+      case 'boss': {
+        if (!entity.boss) break;
+        const { accent } = getBossDefinition(entity.boss.type).appearance;
+
+        this.ctx.save();
+        // Flicker while shots can't hurt it; its timers run on enemy time
+        if (entity.health && simulation.enemyTime() < entity.health.invulnerableUntil) {
+          this.ctx.globalAlpha = Math.floor(simulation.now() / 100) % 2 === 0 ? 0.5 : 0.8;
+        }
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+
+        // Armor plating and bridge
+        this.ctx.fillStyle = accent;
+        this.ctx.fillRect(x + width * 0.1, y + height * 0.2, width * 0.8, height * 0.1);
+        this.ctx.fillRect(x + width * 0.4, y + height * 0.45, width * 0.2, height * 0.35);
+        this.ctx.restore();
+        break;
+      }
+
+      case 'drone':
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.beginPath();
+        this.ctx.moveTo(x + width / 2, y);
+        this.ctx.lineTo(x + width, y + height / 2);
+        this.ctx.lineTo(x + width / 2, y + height);
+        this.ctx.lineTo(x, y + height / 2);
+        this.ctx.closePath();
+        this.ctx.fill();
+        break;
+
+      case 'projectile':
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+        break;
+
+      case 'beam':
+        // Glow around a white-hot core, fading as the pulse ends
+        this.ctx.save();
+        this.ctx.globalAlpha = entity.lifetime ? 0.5 + 0.5 * entity.lifetime.remaining / entity.lifetime.total : 1;
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.fillRect(x + width / 4, y, width / 2, height);
+        this.ctx.restore();
+        break;
+        
+      case 'pickup':
+        this.ctx.fillStyle = sprite.color;
+        this.ctx.fillRect(x, y, width, height);
+        
+        // Draw power-up symbol
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = '16px Arial';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(sprite.symbol, x + width / 2, y + height / 2 + 6);
+        break;
+    }
+  }
+
+  // The range a partner has to stay within, filling as the revive progresses
+  private drawReviveMarker({ reviveProgress }: PlayerControl, color: string, x: number, y: number) {
+    this.ctx.save();
+    this.ctx.strokeStyle = color;
+    this.ctx.globalAlpha = 0.4;
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([6, 6]);
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, REVIVE_RANGE, 0, Math.PI * 2);
+    this.ctx.stroke();
+
+    this.ctx.globalAlpha = 1;
+    this.ctx.lineWidth = 4;
+    this.ctx.setLineDash([]);
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, REVIVE_RANGE, -Math.PI / 2, -Math.PI / 2 + (reviveProgress / REVIVE_TIME) * Math.PI * 2);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = color;
+    this.ctx.font = '14px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('REVIVE', x, y + 5);
+    this.ctx.restore();
+  }
+
+  private drawHUD(view: RenderView) {
+    const { simulation } = view;
+    const { players } = simulation;
+
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '20px Arial';
+    this.ctx.textAlign = 'left';
+    
+    // Score
+    this.ctx.fillText(`Score: ${simulation.stats.score}`, 20, 30);
+    
+    // Wave
+    this.ctx.fillText(`Wave: ${simulation.stats.wave}`, 20, 60);
+    
+    // High Score
+    this.ctx.fillText(`High Score: ${view.highScore}`, 20, 90);
+
+    if (players.length > 1) {
+      // One panel per player along the bottom, player one's on the left
+      players.forEach((player, slot) => {
+        this.drawPlayerPanel(simulation, player, slot === 0 ? 20 : CANVAS_WIDTH - 20 - PLAYER_PANEL_WIDTH);
+      });
+    } else {
+      const [player] = players;
+      const { playerControl } = player;
+
+      this.ctx.fillText('Lives:', 20, 120);
+      this.drawLives(simulation, player, 80, 120);
+
+      // Primary weapon and its level
+      this.drawWeapon(playerControl, 20, 150);
+
+      // Bombs left
+      this.ctx.fillText('Bombs:', 20, 180);
+      this.drawBombs(playerControl.bombs, 98, 180);
+
+      this.drawGrazeMeter(simulation, player, 20, 250);
+      this.drawDrones(simulation, player, 20, 290);
+
+      this.drawHealthBar(player.health, CANVAS_WIDTH - HEALTH_BAR_WIDTH - 20, 20);
+      this.drawPowerUps(simulation, playerControl, CANVAS_WIDTH - 20, 85, 25, 'right');
+    }
+
+    // Combo and multiplier, with a bar draining until the combo runs out
+    const { combo } = simulation;
+    if (combo.count > 0) {
+      const timeLeft = Math.max(0, combo.expiresAt - simulation.now());
+      this.ctx.font = '20px Arial';
+      this.ctx.textAlign = 'left';
+      this.ctx.fillStyle = combo.multiplier > 1 ? '#ffaa00' : '#ffffff';
+      this.ctx.fillText(`Combo ${combo.count}  x${combo.multiplier}`, 20, 210);
+      this.ctx.fillStyle = '#333333';
+      this.ctx.fillRect(20, 218, 150, 6);
+      this.ctx.fillStyle = '#ffaa00';
+      this.ctx.fillRect(20, 218, 150 * (timeLeft / COMBO_WINDOW), 6);
+      this.ctx.fillStyle = '#ffffff';
+    }
+
+    // Difficulty of the run
+    this.ctx.fillStyle = DIFFICULTIES[simulation.difficulty].color;
+    this.ctx.font = '16px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(this.difficultyLabel(simulation), CANVAS_WIDTH - 20, 60);
+  }
+
+  // A co-op player's score, health, lives, weapon, bombs, graze meter and
+  // drones, with their power-ups stacked above
+  private drawPlayerPanel(simulation: GameSimulation, player: PlayerEntity, left: number) {
+    const { playerControl, sprite } = player;
+    const top = CANVAS_HEIGHT - 215;
+
+    this.ctx.font = '20px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillStyle = sprite.color;
+    const status = playerControl.respawnAt === Infinity ? '  OUT' : '';
+    this.ctx.fillText(`P${playerControl.slot + 1}: ${playerControl.score}${status}`, left, top);
+
+    this.drawHealthBar(player.health, left, top + 10);
+
+    this.ctx.font = '20px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.fillText(simulation.lives.shared ? 'Team:' : 'Lives:', left, top + 70);
+    this.drawLives(simulation, player, left + 64, top + 70);
+
+    this.drawWeapon(playerControl, left, top + 100);
+
+    this.ctx.fillText('Bombs:', left, top + 130);
+    this.drawBombs(playerControl.bombs, left + 78, top + 130);
+
+    this.drawGrazeMeter(simulation, player, left, top + 160);
+    this.drawDrones(simulation, player, left, top + 200);
+
+    this.drawPowerUps(simulation, playerControl, left, top - 30, -20, 'left');
+  }
+
+  // One icon per ship left in the player's pool of lives
+  private drawLives(simulation: GameSimulation, player: PlayerEntity, x: number, y: number) {
+    const { lives } = simulation;
+    const remaining = lives.remaining[lifePool(lives, player.playerControl.slot)];
+    this.ctx.fillStyle = player.sprite.color;
+    for (let i = 0; i < Math.min(remaining, 5); i++) {
+      this.ctx.fillRect(x + i * 22, y - 14, 16, 16);
+    }
+    if (remaining > 5) {
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.font = '16px Arial';
+      this.ctx.fillText(`x${remaining}`, x + 112, y);
+      this.ctx.font = '20px Arial';
+    }
+    this.ctx.fillStyle = '#ffffff';
+  }
+
+  private drawWeapon({ loadout }: PlayerControl, x: number, y: number) {
+    const weapon = getWeaponDefinition(loadout.weapon);
+    this.ctx.fillStyle = weapon.color;
+    this.ctx.fillText(`${weapon.name} Lv ${loadout.level}`, x, y);
+    this.ctx.fillStyle = '#ffffff';
+  }
+
+  private drawBombs(bombs: number, x: number, y: number) {
+    this.ctx.fillStyle = '#ffdd44';
+    for (let i = 0; i < bombs; i++) {
+      this.ctx.beginPath();
+      this.ctx.arc(x + i * 22, y - 6, 7, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+    this.ctx.fillStyle = '#ffffff';
+  }
+
+  // The ship's grazes, and the meter towards the next overdrive or what's
+  // left of it
+  private drawGrazeMeter(simulation: GameSimulation, { graze }: PlayerEntity, x: number, y: number) {
+    const overdriveLeft = Math.max(0, graze.overdriveUntil - simulation.now());
+    this.ctx.fillStyle = overdriveLeft > 0 ? '#44ffff' : '#ffffff';
+    this.ctx.fillText(overdriveLeft > 0 ? 'OVERDRIVE' : `Graze: ${graze.count}`, x, y);
+    this.ctx.fillStyle = '#333333';
+    this.ctx.fillRect(x, y + 8, 150, 6);
+    this.ctx.fillStyle = '#44ffff';
+    this.ctx.fillRect(
+      x,
+      y + 8,
+      150 * (overdriveLeft > 0 ? overdriveLeft / OVERDRIVE_DURATION : graze.meter / GRAZE_METER_MAX),
+      6
+    );
+    this.ctx.fillStyle = '#ffffff';
+  }
+
+  // Option drones and their formation
+  private drawDrones(simulation: GameSimulation, { playerControl, wing }: PlayerEntity, x: number, y: number) {
+    const drones = powerUpStacks(playerControl.powerUps, 'drone', simulation.now());
+    if (drones === 0) return;
+
+    const { formation } = wing;
+    this.ctx.fillStyle = POWER_UP_ARCHETYPES.drone.color;
+    this.ctx.fillText(`Drones: ${drones}  ${formation[0].toUpperCase()}${formation.slice(1)}`, x, y);
+    this.ctx.fillStyle = '#ffffff';
+  }
+
+  private drawHealthBar(health: Health, x: number, y: number) {
+    const healthPercent = health.current / health.max;
+
+    this.ctx.fillStyle = '#333333';
+    this.ctx.fillRect(x, y, HEALTH_BAR_WIDTH, HEALTH_BAR_HEIGHT);
+
+    this.ctx.fillStyle = health.current > 30 ? '#44ff44' : '#ff4444';
+    this.ctx.fillRect(x, y, HEALTH_BAR_WIDTH * healthPercent, HEALTH_BAR_HEIGHT);
+
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '16px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(`Health: ${health.current}/${health.max}`, x + HEALTH_BAR_WIDTH / 2, y + 15);
+  }
+
+  // Active power-ups in registry order, labelled by how they stack, one
+  // line every `step` pixels from `y`
+  private drawPowerUps(
+    simulation: GameSimulation,
+    playerControl: PlayerControl,
+    x: number,
+    y: number,
+    step: number,
+    align: CanvasTextAlign
+  ) {
+    let yOffset = y;
+    const currentTime = simulation.now();
+    POWER_UP_TYPES.forEach(type => {
+      const effect = playerControl.powerUps.find(powerUp => powerUp.type === type);
+      const timeLeft = effect ? effect.duration - (currentTime - effect.startTime) : 0;
+      if (!effect || timeLeft <= 0) return;
+
+      const { name, color, stacking } = POWER_UP_ARCHETYPES[type];
+      let label = name;
+      if (stacking === 'level') label += ` Lv ${effect.stacks}`;
+      if (stacking === 'stack') label += ` x${effect.stacks}`;
+      if (Number.isFinite(timeLeft)) label += `: ${Math.ceil(timeLeft / 1000)}s`;
+
+      this.ctx.fillStyle = color;
+      this.ctx.font = '16px Arial';
+      this.ctx.textAlign = align;
+      this.ctx.fillText(label, x, yOffset);
+      yOffset += step;
+    });
+  }
+
+  private difficultyLabel(simulation: GameSimulation) {
+    const { name } = DIFFICULTIES[simulation.difficulty];
+    return simulation.adaptive.enabled ? `${name} (Adaptive)` : name;
+  }
+
+  // Adaptive difficulty metrics, bottom left
+  private drawDebugOverlay(simulation: GameSimulation) {
+    const { adaptive } = simulation;
+    const { metrics } = adaptive;
+    const effective = simulation.effectiveDifficulty;
+    const lines = [
+      `Adaptive: ${adaptive.enabled ? 'on' : 'off'}  level ${adaptive.level.toFixed(2)}`,
+      `Kill rate: ${metrics.killRate.toFixed(2)}/s`,
+      `Damage taken: ${metrics.damageTaken}`,
+      `Accuracy: ${(metrics.accuracy * 100).toFixed(0)}%`,
+      `Health: ${(metrics.health * 100).toFixed(0)}%`,
+      `Performance: ${metrics.performance.toFixed(2)}`,
+      `Spawn rate: x${effective.spawnRate.toFixed(2)}`,
+      `Fire rate: x${effective.fireRate.toFixed(2)}`,
+      `Power-up chance: ${(effective.powerUpChance * 100).toFixed(1)}%`,
+      `Drop rate: x${effective.dropRate.toFixed(2)}`,
+      `Adjustments: ${adaptive.log.length}`
+    ];
+
+    const lineHeight = 16;
+    const top = CANVAS_HEIGHT - 20 - lines.length * lineHeight;
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.fillRect(10, top - 16, 220, lines.length * lineHeight + 12);
+
+    this.ctx.fillStyle = '#44ff44';
+    this.ctx.font = '12px monospace';
+    this.ctx.textAlign = 'left';
+    lines.forEach((line, i) => this.ctx.fillText(line, 18, top + i * lineHeight));
+  }
+
+  // Large bar across the top of the screen with a notch per phase
+  private drawBossHealth(simulation: GameSimulation) {
+    simulation.world.each(['boss', 'health'], ({ boss, health }) => {
+      const definition = getBossDefinition(boss.type);
+      const barWidth = 600;
+      const barHeight = 12;
+      const left = CANVAS_WIDTH / 2 - barWidth / 2;
+      const top = 88;
+
+      this.ctx.fillStyle = '#ffffff';
+      this.ctx.font = '16px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.fillText(definition.name, CANVAS_WIDTH / 2, top - 6);
+
+      this.ctx.fillStyle = '#333333';
+      this.ctx.fillRect(left, top, barWidth, barHeight);
+
+      this.ctx.fillStyle = '#ff4444';
+      this.ctx.fillRect(left, top, barWidth * Math.max(0, health.current / health.max), barHeight);
+
+      this.ctx.fillStyle = '#ffffff';
+      definition.phases.slice(1).forEach(phase => {
+        this.ctx.fillRect(left + barWidth * phase.threshold - 1, top - 2, 2, barHeight + 4);
+      });
+    });
+  }
+
+  private drawMenu(view: RenderView) {
+    const { highScore } = view;
+
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '48px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('SPACE DEFENDER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 100);
+
+    // Difficulty picker
+    const difficulty = DIFFICULTIES[view.difficulty];
+    this.ctx.fillStyle = difficulty.color;
+    this.ctx.font = '24px Arial';
+    this.ctx.fillText(
+      `◀  ${difficulty.name}${view.adaptive ? ' (Adaptive)' : ''}  ▶`,
+      CANVAS_WIDTH / 2,
+      CANVAS_HEIGHT / 2 - 45
+    );
+    this.ctx.fillStyle = '#888888';
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(
+      `A / D to change difficulty  •  M to toggle adaptive  •  C to toggle co-op${view.players.count > 1 ? '  •  L to toggle shared lives' : ''}`,
+      CANVAS_WIDTH / 2,
+      CANVAS_HEIGHT / 2 - 24
+    );
+
+    // Player setup
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '18px Arial';
+    this.ctx.fillText(
+      view.players.count > 1 ? `2 Players${view.players.sharedLives ? ' (Shared Lives)' : ''}` : '1 Player',
+      CANVAS_WIDTH / 2,
+      CANVAS_HEIGHT / 2 - 72
+    );
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '24px Arial';
+    this.ctx.fillText(view.gamepads > 0 ? 'Press SPACE or START to Start' : 'Press SPACE to Start', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+
+    if (view.gamepads > 0) {
+      this.ctx.fillStyle = '#888888';
+      this.ctx.font = '14px Arial';
+      this.ctx.fillText(
+        `${view.gamepads} gamepad${view.gamepads > 1 ? 's' : ''}: Stick / D-pad - Move  •  A / RT - Shoot  •  B - Bomb  •  X - Drone Formation  •  Y - Pause`,
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT / 2 + 28
+      );
+      this.ctx.fillStyle = '#ffffff';
+    }
+    
+    this.ctx.font = '18px Arial';
+    this.ctx.fillText('Controls:', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 60);
+    if (view.players.count > 1) {
+      this.ctx.font = '16px Arial';
+      this.ctx.fillText('P1: WASD - Move  •  SPACE - Shoot  •  B - Bomb  •  F - Drone Formation', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 80);
+      this.ctx.fillText('P2: Arrows - Move  •  ENTER - Shoot  •  RIGHT SHIFT - Bomb  •  / - Drone Formation  •  P - Pause', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 100);
+      this.ctx.font = '18px Arial';
+    } else {
+      this.ctx.fillText('WASD - Move  •  SPACE - Shoot  •  B - Bomb  •  F - Drone Formation  •  P - Pause', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 85);
+    }
+    
+    this.ctx.fillText('Power-ups:', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 120);
+    // One entry per registry row, with weapon pickups standing for the
+    // weapon catalog, wrapped into centered rows
+    const legend: Array<[string, string]> = POWER_UP_TYPES.map(type => {
+      const { name, symbol, color } = POWER_UP_ARCHETYPES[type];
+      return type === 'weapon'
+        ? [WEAPON_TYPES.map(weapon => getWeaponDefinition(weapon).symbol).join(' ') + ' - Weapons', color]
+        : [`${symbol} - ${name}`, color];
+    });
+    const separator = '  •  ';
+    const rows: Array<Array<[string, string]>> = [[]];
+    legend.forEach(entry => {
+      const row = rows[rows.length - 1];
+      const width = this.ctx.measureText([...row, entry].map(([text]) => text).join(separator)).width;
+      if (row.length > 0 && width > CANVAS_WIDTH - 200) {
+        rows.push([entry]);
+      } else {
+        row.push(entry);
+      }
+    });
+
+    this.ctx.textAlign = 'left';
+    rows.forEach((row, rowIndex) => {
+      const rowWidth = this.ctx.measureText(row.map(([text]) => text).join(separator)).width;
+      let legendX = CANVAS_WIDTH / 2 - rowWidth / 2;
+      row.forEach(([text, color], i) => {
+        const label = i < row.length - 1 ? text + separator : text;
+        this.ctx.fillStyle = color;
+        this.ctx.fillText(label, legendX, CANVAS_HEIGHT / 2 + 145 + rowIndex * 24);
+        legendX += this.ctx.measureText(label).width;
+      });
+    });
+    this.ctx.textAlign = 'center';
+    
+    if (highScore > 0) {
+      this.ctx.fillStyle = '#ffff44';
+      this.ctx.font = '20px Arial';
+      this.ctx.fillText(
+        `High Score (${difficulty.name}): ${highScore}`,
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT / 2 + 145 + rows.length * 24 + 15
+      );
+      if (view.hasBestRun) {
+        this.ctx.fillStyle = '#888888';
+        this.ctx.font = '14px Arial';
+        this.ctx.fillText('Press R to watch the run that set it', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 145 + rows.length * 24 + 37);
+      }
+    }
+  }
+
+  private drawPauseOverlay(view: RenderView) {
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '36px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    
+    this.ctx.font = '18px Arial';
+    this.ctx.fillText(view.gamepads > 0 ? 'Press P or START to Resume' : 'Press P to Resume', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+  }
+
+  private drawGameOverOverlay(view: RenderView) {
+    const { simulation } = view;
+
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    
+    this.ctx.fillStyle = '#ff4444';
+    this.ctx.font = '48px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('GAME OVER', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
+
+    this.ctx.fillStyle = DIFFICULTIES[simulation.difficulty].color;
+    this.ctx.font = '18px Arial';
+    this.ctx.fillText(this.difficultyLabel(simulation), CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '24px Arial';
+    this.ctx.fillText(`Final Score: ${simulation.stats.score}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 10);
+    this.ctx.fillText(`Wave Reached: ${simulation.stats.wave}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+    this.ctx.fillText(`Best Combo: ${simulation.stats.maxCombo}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 70);
+    
+    if (simulation.stats.score === view.highScore) {
+      this.ctx.fillStyle = '#ffff44';
+      this.ctx.fillText('NEW HIGH SCORE!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 100);
+    }
+
+    // Each player's share of the score in co-op
+    if (simulation.players.length > 1) {
+      this.ctx.fillStyle = '#aaaaaa';
+      this.ctx.font = '18px Arial';
+      this.ctx.fillText(
+        simulation.players.map(({ playerControl }) => `P${playerControl.slot + 1}: ${playerControl.score}`).join('  •  '),
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT / 2 + 125
+      );
+    }
+    
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = '18px Arial';
+    this.ctx.fillText('Press SPACE to Play Again', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 150);
+    if (view.hasReplay) {
+      this.ctx.fillText('Press R to Watch Replay', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 175);
+    }
+    this.ctx.fillText('Press ESC for Menu', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + (view.hasReplay ? 200 : 175));
+    
+    this.ctx.fillStyle = '#888888';
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(`Seed: ${simulation.seed}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 230);
+  }
+
+  private drawReplayOverlay() {
+    this.ctx.fillStyle = '#ff4444';
+    this.ctx.font = '20px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('● REPLAY', CANVAS_WIDTH / 2, 30);
+    
+    this.ctx.fillStyle = '#888888';
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText('SPACE - Play/Pause  •  F - Speed  •  ESC - Exit', CANVAS_WIDTH / 2, 50);
+  }
+}
@@ -0,0 +1,585 @@
+import { FixedStepClock, GameClock, type SimulationClock } from '@/lib/game/clock';
+import { FIXED_TIMESTEP } from '@/lib/game/constants';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_LEVELS,
+  isDifficulty,
+  type Difficulty
+} from '@/lib/game/difficulty';
+import { InputFlag, PLAYER_INPUT_BITS, throttleInput } from '@/lib/game/input';
+import { generateSeed } from '@/lib/game/random';
+import {
+  ReplayCursor,
+  ReplayRecorder,
+  decodeReplay,
+  encodeReplay,
+  type Replay,
+  type ReplayStatus
+} from '@/lib/game/replay';
+import type { SimulationEvent } from '@/lib/game/events';
+import { GameSimulation, SINGLE_PLAYER, type PlayerSetup } from '@/lib/game/simulation';
+import { CanvasRenderer } from './canvas-renderer';
+import { GamepadInput } from './gamepad-input';
+import { SoundPlayer } from './sound-player';
+import { GameState } from './types';
+
+const MAX_FRAME_TIME = 250;
+
+const AXIS_X = InputFlag.LEFT | InputFlag.RIGHT;
+const AXIS_Y = InputFlag.UP | InputFlag.DOWN;
+
+// Keys for each input flag, player one's then player two's. In single
+// player either set flies the ship, as does every gamepad.
+const KEY_BINDINGS: Array<Record<keyof typeof InputFlag, string[]>> = [
+  {
+    UP: ['KeyW'],
+    DOWN: ['KeyS'],
+    LEFT: ['KeyA'],
+    RIGHT: ['KeyD'],
+    SHOOT: ['Space'],
+    BOMB: ['KeyB'],
+    FORMATION: ['KeyF']
+  },
+  {
+    UP: ['ArrowUp'],
+    DOWN: ['ArrowDown'],
+    LEFT: ['ArrowLeft'],
+    RIGHT: ['ArrowRight'],
+    SHOOT: ['Enter'],
+    BOMB: ['ShiftRight'],
+    FORMATION: ['Slash']
+  }
+];
+
+// Normal keeps the storage keys from before difficulties existed, so
+// earlier high scores carry over. Adaptive and co-op runs have their own
+// tables.
+function storageKey(key: string, difficulty: Difficulty, adaptive: boolean, players: number) {
+  const suffix = (adaptive ? '.adaptive' : '') + (players > 1 ? '.coop' : '');
+  return difficulty === DEFAULT_DIFFICULTY ? `${key}${suffix}` : `${key}.${difficulty}${suffix}`;
+}
+
+export interface GameEngineOptions {
+  clock?: SimulationClock;
+  // Fixed seed for every run; a fresh seed is rolled per run when omitted
+  seed?: number;
+  // Notified whenever replay availability or playback position changes
+  onReplayStatus?: (status: ReplayStatus | null) => void;
+}
+
+interface ReplayPlayback {
+  replay: Replay;
+  cursor: ReplayCursor;
+  playing: boolean;
+  speed: number;
+  // Screen that leaving the replay goes back to
+  returnTo: GameState.MENU | GameState.GAME_OVER;
+}
+
+/**
+ * Browser shell around the headless simulation: owns the frame loop,
+ * keyboard and gamepad input for one or two players, high score
+ * persistence and replay controls, and forwards simulation events to the
+ * renderer, sound player and gamepad rumble.
+ */
+export class GameEngine {
+  private gameState: GameState = GameState.MENU;
+  private keys: Set<string> = new Set();
+  private gameTime: GameClock;
+  private fixedSeed: number | null;
+  private lastFrameTime: number | null = null;
+  private accumulator = 0;
+  private animationId = 0;
+
+  private simulation: GameSimulation;
+  private renderer: CanvasRenderer;
+  private sound: SoundPlayer;
+  private gamepads: GamepadInput;
+  private difficulty: Difficulty = DEFAULT_DIFFICULTY;
+  private adaptive = false;
+  private players: PlayerSetup = { ...SINGLE_PLAYER };
+  // Keyed by `storageKey`
+  private highScores = new Map<string, number>();
+  // Runs that set each high score, under the same keys
+  private bestRuns = new Map<string, Replay>();
+  private showDebug = false;
+
+  // Replay recording and playback
+  private recorder: ReplayRecorder | null = null;
+  private lastReplay: Replay | null = null;
+  private playback: ReplayPlayback | null = null;
+  private onReplayStatus?: (status: ReplayStatus | null) => void;
+  // Silences effects while seeking through a replay
+  private muted = false;
+
+  constructor(canvas: HTMLCanvasElement, options: GameEngineOptions = {}) {
+    this.gameTime = new GameClock(options.clock ?? new FixedStepClock());
+    this.fixedSeed = options.seed ?? null;
+    this.onReplayStatus = options.onReplayStatus;
+
+    this.simulation = new GameSimulation({ clock: this.gameTime });
+    this.renderer = new CanvasRenderer(canvas);
+    this.sound = new SoundPlayer();
+    this.gamepads = new GamepadInput(this.handleGamepadDisconnect);
+    this.simulation.subscribe(this.handleSimulationEvent);
+
+    this.loadSettings();
+    this.setupEventListeners();
+    this.animationId = requestAnimationFrame(this.gameLoop);
+  }
+
+  private loadSettings() {
+    const difficulty = localStorage.getItem('spaceShooterDifficulty');
+    if (difficulty && isDifficulty(difficulty)) {
+      this.difficulty = difficulty;
+    }
+    this.adaptive = localStorage.getItem('spaceShooterAdaptive') === '1';
+    this.players = {
+      count: localStorage.getItem('spaceShooterPlayers') === '2' ? 2 : 1,
+      sharedLives: localStorage.getItem('spaceShooterSharedLives') === '1'
+    };
+
+    DIFFICULTY_LEVELS.forEach(level => {
+      [false, true].forEach(adaptive => {
+        [1, 2].forEach(players => {
+          const key = storageKey('spaceShooterHighScore', level, adaptive, players);
+          const saved = localStorage.getItem(key);
+          this.highScores.set(key, saved ? parseInt(saved) : 0);
+
+          // Runs recorded by an older replay format no longer decode
+          const run = localStorage.getItem(storageKey('spaceShooterHighScoreReplay', level, adaptive, players));
+          const replay = run ? decodeReplay(run) : null;
+          if (replay) this.bestRuns.set(key, replay);
+        });
+      });
+    });
+  }
+
+  private get highScoreKey() {
+    return storageKey('spaceShooterHighScore', this.difficulty, this.adaptive, this.players.count);
+  }
+
+  private get highScore() {
+    return this.highScores.get(this.highScoreKey) ?? 0;
+  }
+
+  private saveHighScore() {
+    const { difficulty, adaptive, playerSetup, stats } = this.simulation;
+    const key = storageKey('spaceShooterHighScore', difficulty, adaptive.enabled, playerSetup.count);
+    if (stats.score > (this.highScores.get(key) ?? 0)) {
+      this.highScores.set(key, stats.score);
+      localStorage.setItem(key, stats.score.toString());
+      // Keep the run that set the high score so it can be watched later
+      if (this.lastReplay) {
+        this.bestRuns.set(key, this.lastReplay);
+        localStorage.setItem(
+          storageKey('spaceShooterHighScoreReplay', difficulty, adaptive.enabled, playerSetup.count),
+          encodeReplay(this.lastReplay)
+        );
+      }
+    }
+  }
+
+  // Steps through the presets from the menu, wrapping at either end
+  private cycleDifficulty(step: number) {
+    const index = DIFFICULTY_LEVELS.indexOf(this.difficulty);
+    const count = DIFFICULTY_LEVELS.length;
+    this.difficulty = DIFFICULTY_LEVELS[(index + step + count) % count];
+    localStorage.setItem('spaceShooterDifficulty', this.difficulty);
+  }
+
+  private toggleAdaptive() {
+    this.adaptive = !this.adaptive;
+    localStorage.setItem('spaceShooterAdaptive', this.adaptive ? '1' : '0');
+  }
+
+  private toggleCoop() {
+    this.players = { ...this.players, count: this.players.count > 1 ? 1 : 2 };
+    localStorage.setItem('spaceShooterPlayers', this.players.count.toString());
+  }
+
+  private toggleSharedLives() {
+    this.players = { ...this.players, sharedLives: !this.players.sharedLives };
+    localStorage.setItem('spaceShooterSharedLives', this.players.sharedLives ? '1' : '0');
+  }
+
+  private handleSimulationEvent = (event: SimulationEvent) => {
+    if (this.muted) return;
+
+    // Adjustments are logged for tuning the adaptive curve
+    if (event.type === 'difficultyAdjusted' && this.gameState === GameState.PLAYING) {
+      const { adjustment } = event;
+      console.log(
+        `Difficulty adjusted at ${(adjustment.time / 1000).toFixed(1)}s: level ${adjustment.level.toFixed(2)}, ` +
+        `performance ${adjustment.performance.toFixed(2)}`,
+        adjustment
+      );
+    }
+
+    this.renderer.handleEvent(event);
+    this.sound.handleEvent(event);
+    // Replays play back silently on the pads
+    if (this.gameState === GameState.PLAYING) {
+      this.gamepads.handleEvent(event);
+    }
+  };
+
+  // Losing a controller mid-run pauses rather than leaving a ship adrift
+  private handleGamepadDisconnect = () => {
+    if (this.gameState === GameState.PLAYING) {
+      this.setGameState(GameState.PAUSED);
+    }
+  };
+
+  // Gamepad counterpart of the menu, pause and replay keys
+  private handleGamepadCommands() {
+    const pad = this.gamepads;
+
+    switch (this.gameState) {
+      case GameState.MENU:
+        if (pad.pressed('start')) this.startGame();
+        else if (pad.pressed('left')) this.cycleDifficulty(-1);
+        else if (pad.pressed('right')) this.cycleDifficulty(1);
+        break;
+
+      case GameState.GAME_OVER:
+        if (pad.pressed('start')) this.startGame();
+        else if (pad.pressed('back')) this.setGameState(GameState.MENU);
+        break;
+
+      case GameState.PLAYING:
+        if (pad.pressed('start') || pad.pressed('pause')) this.setGameState(GameState.PAUSED);
+        break;
+
+      case GameState.PAUSED:
+        if (pad.pressed('start') || pad.pressed('pause')) this.setGameState(GameState.PLAYING);
+        break;
+
+      case GameState.REPLAY:
+        if (pad.pressed('start')) this.toggleReplayPlayback();
+        else if (pad.pressed('back')) this.exitReplay();
+        break;
+    }
+  }
+
+  private setupEventListeners() {
+    document.addEventListener('keydown', this.handleKeyDown);
+    document.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    this.keys.add(e.code);
+
+    if (e.code === 'Backquote') {
+      this.showDebug = !this.showDebug;
+    }
+
+    if (this.gameState === GameState.REPLAY) {
+      this.handleReplayKey(e);
+      return;
+    }
+
+    if (e.code === 'Space') {
+      e.preventDefault();
+      if (this.gameState === GameState.MENU || this.gameState === GameState.GAME_OVER) {
+        this.startGame();
+      }
+    }
+
+    if (this.gameState === GameState.MENU) {
+      if (e.code === 'ArrowLeft' || e.code === 'KeyA') {
+        this.cycleDifficulty(-1);
+      } else if (e.code === 'ArrowRight' || e.code === 'KeyD') {
+        this.cycleDifficulty(1);
+      } else if (e.code === 'KeyM') {
+        this.toggleAdaptive();
+      } else if (e.code === 'KeyC') {
+        this.toggleCoop();
+      } else if (e.code === 'KeyL' && this.players.count > 1) {
+        this.toggleSharedLives();
+      } else if (e.code === 'KeyR') {
+        this.watchBestRun();
+      }
+    }
+
+    if (e.code === 'KeyR' && this.gameState === GameState.GAME_OVER) {
+      this.startReplay();
+    }
+
+    if (e.code === 'Escape' && this.gameState === GameState.GAME_OVER) {
+      this.setGameState(GameState.MENU);
+    }
+
+    if (e.code === 'KeyP' && this.gameState === GameState.PLAYING) {
+      this.setGameState(GameState.PAUSED);
+    } else if (e.code === 'KeyP' && this.gameState === GameState.PAUSED) {
+      this.setGameState(GameState.PLAYING);
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.keys.delete(e.code);
+  };
+
+  private handleReplayKey(e: KeyboardEvent) {
+    if (e.code === 'Space' || e.code === 'KeyP') {
+      e.preventDefault();
+      this.toggleReplayPlayback();
+    } else if (e.code === 'KeyF') {
+      this.setReplaySpeed(this.playback && this.playback.speed < 8 ? this.playback.speed * 2 : 1);
+    } else if (e.code === 'Escape') {
+      this.exitReplay();
+    }
+  }
+
+  private setGameState(state: GameState) {
+    this.gameState = state;
+    // Game time only advances while the simulation is running
+    this.gameTime.setRunning(state === GameState.PLAYING || state === GameState.REPLAY);
+    this.emitReplayStatus();
+  }
+
+  private startGame() {
+    this.resetGame(this.fixedSeed ?? generateSeed(), this.difficulty, this.adaptive, this.players);
+    this.recorder = new ReplayRecorder(this.simulation.seed, this.difficulty, this.adaptive, this.players);
+    this.setGameState(GameState.PLAYING);
+  }
+
+  private resetGame(seed: number, difficulty: Difficulty, adaptive: boolean, players: PlayerSetup) {
+    this.simulation.reset(seed, difficulty, adaptive, players);
+    this.renderer.clear();
+    this.accumulator = 0;
+  }
+
+  private gameLoop = (currentTime: number) => {
+    // Clamp long frames (tab switches, debugger pauses) so the simulation
+    // doesn't try to catch up with hundreds of ticks at once
+    const frameTime = this.lastFrameTime === null
+      ? 0
+      : Math.min(currentTime - this.lastFrameTime, MAX_FRAME_TIME);
+    this.lastFrameTime = currentTime;
+
+    this.accumulator += frameTime;
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.update();
+      this.accumulator -= FIXED_TIMESTEP;
+    }
+
+    // Only interpolate while the simulation is advancing; a frozen frame
+    // would otherwise jitter between the last two ticks
+    const advancing = this.gameState === GameState.PLAYING ||
+      (this.gameState === GameState.REPLAY && this.playback?.playing);
+
+    this.renderer.render({
+      state: this.gameState,
+      simulation: this.simulation,
+      difficulty: this.difficulty,
+      adaptive: this.adaptive,
+      players: this.players,
+      gamepads: this.gamepads.count,
+      highScore: this.highScore,
+      hasReplay: this.lastReplay !== null,
+      hasBestRun: this.bestRuns.has(this.highScoreKey),
+      debug: this.showDebug
+    }, advancing ? this.accumulator / FIXED_TIMESTEP : 1);
+
+    this.animationId = requestAnimationFrame(this.gameLoop);
+  };
+
+  private update() {
+    this.gamepads.poll();
+    this.handleGamepadCommands();
+
+    if (this.gameState === GameState.PLAYING) {
+      const input = this.readInput();
+      this.recorder?.record(input);
+      this.tick(input);
+
+      // Check game over
+      if (this.simulation.isGameOver) {
+        this.gameOver();
+      }
+    } else if (this.gameState === GameState.REPLAY) {
+      this.updatePlayback();
+    }
+  }
+
+  private tick(input: number) {
+    this.simulation.tick(input);
+    if (!this.muted) {
+      this.renderer.update();
+    }
+  }
+
+  private readInput(): number {
+    const { count } = this.simulation.playerSetup;
+    const keyFlags = new Array<number>(count).fill(0);
+
+    KEY_BINDINGS.forEach((bindings, i) => {
+      for (const [flag, keys] of Object.entries(bindings) as Array<[keyof typeof InputFlag, string[]]>) {
+        if (keys.some(key => this.keys.has(key))) {
+          keyFlags[count > 1 ? i : 0] |= InputFlag[flag];
+        }
+      }
+    });
+
+    let input = 0;
+    this.gamepads.read(count).forEach((pad, slot) => {
+      const flags = keyFlags[slot];
+      // A key held on an axis moves the ship at full speed along it
+      const throttleX = flags & AXIS_X ? 1 : pad.throttleX;
+      const throttleY = flags & AXIS_Y ? 1 : pad.throttleY;
+      input |= (flags | pad.flags) << (slot * PLAYER_INPUT_BITS);
+      input |= throttleInput(slot, throttleX, throttleY);
+    });
+
+    return input;
+  }
+
+  private gameOver() {
+    if (this.recorder) {
+      this.lastReplay = this.recorder.finish(this.simulation.stats.score);
+      this.recorder = null;
+    }
+    this.saveHighScore();
+    this.setGameState(GameState.GAME_OVER);
+  }
+
+  public startReplay() {
+    if (!this.lastReplay || this.gameState !== GameState.GAME_OVER) return;
+
+    this.playReplay(this.lastReplay, GameState.GAME_OVER);
+  }
+
+  // Plays back the run that set the high score picked in the menu
+  private watchBestRun() {
+    const replay = this.bestRuns.get(this.highScoreKey);
+    if (!replay || this.gameState !== GameState.MENU) return;
+
+    this.playReplay(replay, GameState.MENU);
+  }
+
+  private playReplay(replay: Replay, returnTo: ReplayPlayback['returnTo']) {
+    this.playback = {
+      replay,
+      cursor: new ReplayCursor(replay),
+      playing: true,
+      speed: 1,
+      returnTo
+    };
+    const { seed, difficulty, adaptive, players } = replay;
+    this.resetGame(seed, difficulty, adaptive, players);
+    this.setGameState(GameState.REPLAY);
+  }
+
+  public toggleReplayPlayback() {
+    if (!this.playback) return;
+
+    // Pressing play at the end starts over
+    if (!this.playback.playing && this.playback.cursor.done) {
+      this.seekReplay(0);
+    }
+    this.playback.playing = !this.playback.playing;
+    this.emitReplayStatus();
+  }
+
+  public setReplaySpeed(speed: number) {
+    if (!this.playback) return;
+
+    this.playback.speed = speed;
+    this.emitReplayStatus();
+  }
+
+  public seekReplay(tick: number) {
+    const playback = this.playback;
+    if (!playback) return;
+
+    const target = Math.max(0, Math.min(playback.replay.ticks, Math.round(tick)));
+
+    // The simulation can only run forwards, so seeking back replays from the start
+    if (target < playback.cursor.position) {
+      playback.cursor = new ReplayCursor(playback.replay);
+      const { seed, difficulty, adaptive, players } = playback.replay;
+      this.resetGame(seed, difficulty, adaptive, players);
+    }
+
+    this.muted = true;
+    while (playback.cursor.position < target) {
+      this.tick(playback.cursor.next());
+    }
+    this.muted = false;
+
+    this.emitReplayStatus();
+  }
+
+  public exitReplay() {
+    if (!this.playback) return;
+
+    const { returnTo } = this.playback;
+    // Fast-forward to the end so the game-over screen shows the final state again
+    if (returnTo === GameState.GAME_OVER) {
+      this.seekReplay(this.playback.replay.ticks);
+    }
+    this.playback = null;
+    this.setGameState(returnTo);
+  }
+
+  private updatePlayback() {
+    const playback = this.playback;
+    if (!playback || !playback.playing) return;
+
+    for (let i = 0; i < playback.speed && !playback.cursor.done; i++) {
+      this.tick(playback.cursor.next());
+    }
+
+    if (playback.cursor.done) {
+      playback.playing = false;
+    }
+    this.emitReplayStatus();
+  }
+
+  private getReplayStatus(): ReplayStatus | null {
+    if (this.gameState === GameState.GAME_OVER && this.lastReplay) {
+      return {
+        active: false,
+        playing: false,
+        speed: 1,
+        tick: this.lastReplay.ticks,
+        totalTicks: this.lastReplay.ticks,
+        tickDuration: FIXED_TIMESTEP,
+        verified: null
+      };
+    }
+
+    if (this.gameState === GameState.REPLAY && this.playback) {
+      const { replay, cursor, playing, speed } = this.playback;
+      return {
+        active: true,
+        playing,
+        speed,
+        tick: cursor.position,
+        totalTicks: replay.ticks,
+        tickDuration: FIXED_TIMESTEP,
+        verified: cursor.done ? this.simulation.stats.score === replay.score : null
+      };
+    }
+
+    return null;
+  }
+
+  private emitReplayStatus() {
+    this.onReplayStatus?.(this.getReplayStatus());
+  }
+
+  public destroy() {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+    }
+
+    this.sound.close();
+    this.gamepads.close();
+
+    document.removeEventListener('keydown', this.handleKeyDown);
+    document.removeEventListener('keyup', this.handleKeyUp);
+  }
+}
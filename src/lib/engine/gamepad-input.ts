@@ -0,0 +1,225 @@
+import type { SimulationEvent } from '@/lib/game/events';
+import { InputFlag } from '@/lib/game/input';
+
+// Stick deflection below this is ignored; beyond it, speed scales from zero
+// at the edge of the deadzone to full at the rim
+const DEADZONE = 0.2;
+// Smallest share of the stick's push along an axis that moves the ship on it
+const MIN_AXIS = 0.1;
+const PRESS_THRESHOLD = 0.5;
+
+// Standard mapping button indices
+const Button = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  RIGHT_TRIGGER: 7,
+  START: 9,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15
+} as const;
+
+const FLAG_BUTTONS: Array<[number, number]> = [
+  [InputFlag.SHOOT, Button.A],
+  [InputFlag.SHOOT, Button.RIGHT_TRIGGER],
+  [InputFlag.BOMB, Button.B],
+  [InputFlag.FORMATION, Button.X],
+  [InputFlag.UP, Button.DPAD_UP],
+  [InputFlag.DOWN, Button.DPAD_DOWN],
+  [InputFlag.LEFT, Button.DPAD_LEFT],
+  [InputFlag.RIGHT, Button.DPAD_RIGHT]
+];
+
+/** Buttons the engine reacts to outside of ship control, on their press. */
+export type PadCommand = 'start' | 'pause' | 'back' | 'left' | 'right';
+
+const COMMAND_BUTTONS: Array<[PadCommand, number]> = [
+  ['start', Button.START],
+  ['pause', Button.Y],
+  ['back', Button.B],
+  ['left', Button.DPAD_LEFT],
+  ['right', Button.DPAD_RIGHT]
+];
+
+/** One player's controls from their gamepads for a tick. */
+export interface PadState {
+  flags: number;
+  // Share of full speed along each axis, 1 unless an analog stick is
+  // pushed part way
+  throttleX: number;
+  throttleY: number;
+}
+
+type Rumble = Pick<GamepadEffectParameters, 'duration' | 'strongMagnitude' | 'weakMagnitude'>;
+
+const RUMBLE = {
+  light: { duration: 80, strongMagnitude: 0, weakMagnitude: 0.3 },
+  hit: { duration: 150, strongMagnitude: 0.4, weakMagnitude: 0.7 },
+  heavy: { duration: 400, strongMagnitude: 1, weakMagnitude: 0.8 },
+  boss: { duration: 700, strongMagnitude: 1, weakMagnitude: 1 }
+} satisfies Record<string, Rumble>;
+
+/**
+ * Browser Gamepad API input, polled once per tick. Pads are handed to
+ * players in the order they were connected and can come and go at any
+ * time; in single player every pad flies the one ship. Also rumbles the
+ * pads on hits and explosions where the browser supports it.
+ */
+export class GamepadInput {
+  // Gamepad indices, in connection order
+  private connected: number[] = [];
+  private held = new Map<number, boolean[]>();
+  private commands = new Set<PadCommand>();
+  private players = 1;
+  private onDisconnect?: () => void;
+
+  constructor(onDisconnect?: () => void) {
+    this.onDisconnect = onDisconnect;
+    // Pads plugged in before the page loaded don't announce themselves again
+    for (const pad of navigator.getGamepads?.() ?? []) {
+      if (pad) this.connected.push(pad.index);
+    }
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+  }
+
+  get count() {
+    return this.connected.length;
+  }
+
+  private handleConnected = (e: GamepadEvent) => {
+    if (this.connected.includes(e.gamepad.index)) return;
+
+    this.connected.push(e.gamepad.index);
+  };
+
+  private handleDisconnected = (e: GamepadEvent) => {
+    if (!this.connected.includes(e.gamepad.index)) return;
+
+    this.connected = this.connected.filter(index => index !== e.gamepad.index);
+    this.held.delete(e.gamepad.index);
+    this.onDisconnect?.();
+  };
+
+  // Pads in connection order, with missing ones left out
+  private pads(): Gamepad[] {
+    if (!navigator.getGamepads) return [];
+
+    const pads = navigator.getGamepads();
+    return this.connected.flatMap(index => pads[index] ?? []);
+  }
+
+  // Player slot a pad controls, or null for pads beyond the player count
+  private slotOf(position: number) {
+    if (this.players === 1) return 0;
+    return position < this.players ? position : null;
+  }
+
+  /**
+   * Reads every pad's buttons, noting commands pressed since the last poll.
+   * Call once per tick before `read` and `pressed`.
+   */
+  poll() {
+    this.commands.clear();
+
+    this.pads().forEach(pad => {
+      const held = pad.buttons.map(button => button.pressed || button.value > PRESS_THRESHOLD);
+      const before = this.held.get(pad.index) ?? [];
+      for (const [command, button] of COMMAND_BUTTONS) {
+        if (held[button] && !before[button]) this.commands.add(command);
+      }
+      this.held.set(pad.index, held);
+    });
+  }
+
+  /** Whether any pad pressed a command button in the last poll. */
+  pressed(command: PadCommand) {
+    return this.commands.has(command);
+  }
+
+  /** Each of `players` players' controls from the last poll. */
+  read(players: number): PadState[] {
+    this.players = players;
+    const states: PadState[] = Array.from({ length: players }, () => ({ flags: 0, throttleX: 0, throttleY: 0 }));
+
+    this.pads().forEach((pad, position) => {
+      const slot = this.slotOf(position);
+      if (slot === null) return;
+
+      const state = states[slot];
+      const held = this.held.get(pad.index) ?? [];
+      for (const [flag, button] of FLAG_BUTTONS) {
+        if (held[button]) state.flags |= flag;
+      }
+      // The D-pad always moves at full speed
+      if (state.flags & (InputFlag.LEFT | InputFlag.RIGHT)) state.throttleX = 1;
+      if (state.flags & (InputFlag.UP | InputFlag.DOWN)) state.throttleY = 1;
+
+      const [x, y] = this.stick(pad);
+      if (Math.abs(x) >= MIN_AXIS) {
+        state.flags |= x < 0 ? InputFlag.LEFT : InputFlag.RIGHT;
+        state.throttleX = Math.max(state.throttleX, Math.abs(x));
+      }
+      if (Math.abs(y) >= MIN_AXIS) {
+        state.flags |= y < 0 ? InputFlag.UP : InputFlag.DOWN;
+        state.throttleY = Math.max(state.throttleY, Math.abs(y));
+      }
+    });
+
+    // Axes nothing pushed on are left at full speed for the keyboard
+    return states.map(state => ({
+      flags: state.flags,
+      throttleX: state.throttleX || 1,
+      throttleY: state.throttleY || 1
+    }));
+  }
+
+  // Left stick position with a radial deadzone, rescaled so each axis
+  // runs from 0 at the deadzone's edge to 1 at the rim
+  private stick(pad: Gamepad): [number, number] {
+    const [x = 0, y = 0] = pad.axes;
+    const magnitude = Math.hypot(x, y);
+    if (magnitude < DEADZONE) return [0, 0];
+
+    const scale = (Math.min(1, magnitude) - DEADZONE) / (1 - DEADZONE) / magnitude;
+    return [x * scale, y * scale];
+  }
+
+  handleEvent(event: SimulationEvent) {
+    switch (event.type) {
+      case 'enemyDestroyed':
+        this.rumble(null, RUMBLE.light);
+        break;
+      case 'playerHit':
+      case 'playerRammed':
+        this.rumble(event.slot, RUMBLE.hit);
+        break;
+      case 'playerDestroyed':
+      case 'bombDetonated':
+        this.rumble(event.slot, RUMBLE.heavy);
+        break;
+      case 'bossDefeated':
+        this.rumble(null, RUMBLE.boss);
+        break;
+    }
+  }
+
+  // Rumbles the pads of the player in `slot`, or every pad for null
+  private rumble(slot: number | null, effect: Rumble) {
+    this.pads().forEach((pad, position) => {
+      if (slot !== null && this.slotOf(position) !== slot) return;
+
+      // Not every browser exposes an actuator, or supports dual rumble
+      const actuator = pad.vibrationActuator as GamepadHapticActuator | null | undefined;
+      actuator?.playEffect('dual-rumble', effect).catch(() => undefined);
+    });
+  }
+
+  close() {
+    window.removeEventListener('gamepadconnected', this.handleConnected);
+    window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+  }
+}
@@ -0,0 +1,102 @@
+import type { SimulationEvent } from '@/lib/game/events';
+
+/**
+ * Oscillator-based sound effects, triggered by simulation events.
+ */
+export class SoundPlayer {
+  private audioContext: AudioContext | null = null;
+
+  constructor() {
+    this.initialize();
+  }
+
+  handleEvent(event: SimulationEvent) {
+    switch (event.type) {
+      case 'playerShot':
+        this.play('shoot', 0.3);
+        break;
+      case 'enemyHit':
+        this.play('hit', 0.4);
+        break;
+      case 'enemyDestroyed':
+      case 'playerRammed':
+      case 'bossPhaseChanged':
+      case 'bossDefeated':
+      case 'playerDestroyed':
+        this.play('explosion', 0.6);
+        break;
+      case 'bombDetonated':
+        this.play('explosion', 1);
+        break;
+      case 'playerHit':
+      case 'droneDestroyed':
+        this.play('hit', 0.5);
+        break;
+      case 'graze':
+        this.play('hit', 0.15);
+        break;
+      case 'powerUpCollected':
+      case 'waveCleared':
+      case 'extraLife':
+      case 'playerRevived':
+      case 'overdriveStarted':
+        this.play('powerup', 0.5);
+        break;
+    }
+  }
+
+  private initialize() {
+    try {
+      const AudioContextClass = window.AudioContext ||
+        (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      this.audioContext = new AudioContextClass();
+      // In a real game, you'd load actual audio files here
+      console.log('Audio initialized');
+    } catch (error) {
+      console.log('Audio not available:', error);
+    }
+  }
+
+  play(type: string, volume = 0.5) {
+    if (!this.audioContext) return;
+    
+    // Create simple beep sounds using oscillators
+    const oscillator = this.audioContext.createOscillator();
+    const gainNode = this.audioContext.createGain();
+    
+    oscillator.connect(gainNode);
+    gainNode.connect(this.audioContext.destination);
+    
+    gainNode.gain.setValueAtTime(volume, this.audioContext.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + 0.2);
+    
+    switch (type) {
+      case 'shoot':
+        oscillator.frequency.setValueAtTime(800, this.audioContext.currentTime);
+        oscillator.frequency.exponentialRampToValueAtTime(200, this.audioContext.currentTime + 0.1);
+        break;
+      case 'explosion':
+        oscillator.frequency.setValueAtTime(150, this.audioContext.currentTime);
+        oscillator.frequency.exponentialRampToValueAtTime(50, this.audioContext.currentTime + 0.3);
+        break;
+      case 'powerup':
+        oscillator.frequency.setValueAtTime(400, this.audioContext.currentTime);
+        oscillator.frequency.setValueAtTime(600, this.audioContext.currentTime + 0.1);
+        oscillator.frequency.setValueAtTime(800, this.audioContext.currentTime + 0.2);
+        break;
+      case 'hit':
+        oscillator.frequency.setValueAtTime(300, this.audioContext.currentTime);
+        oscillator.frequency.exponentialRampToValueAtTime(100, this.audioContext.currentTime + 0.15);
+        break;
+    }
+    
+    oscillator.start(this.audioContext.currentTime);
+    oscillator.stop(this.audioContext.currentTime + 0.3);
+  }
+
+  close() {
+    if (this.audioContext) {
+      this.audioContext.close();
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { Difficulty } from '@/lib/game/difficulty';
+import type { GameSimulation, PlayerSetup } from '@/lib/game/simulation';
+
+// Game states
+export enum GameState {
+  MENU = 'menu',
+  PLAYING = 'playing',
+  PAUSED = 'paused',
+  GAME_OVER = 'game_over',
+  REPLAY = 'replay'
+}
+
+/** Everything the renderer needs to draw a frame. */
+export interface RenderView {
+  state: GameState;
+  simulation: GameSimulation;
+  // Difficulty picked in the menu; the simulation's is the one being played
+  difficulty: Difficulty;
+  adaptive: boolean;
+  players: PlayerSetup;
+  // Gamepads currently connected
+  gamepads: number;
+  // High score for the picked difficulty and player count
+  highScore: number;
+  hasReplay: boolean;
+  // Whether the run that set `highScore` can be watched
+  hasBestRun: boolean;
+  // Shows internal metrics over the game
+  debug: boolean;
+}
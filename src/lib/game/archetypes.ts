@@ -0,0 +1,54 @@
+import type { PowerUpType } from './types';
+
+/**
+ * Per-kind power-up data that prefabs compose into entities. Adding a kind
+ * means adding a row here; systems switch on its action, never the kind.
+ * Enemies are described by the enemy catalog instead.
+ */
+
+// 'timed' grants an effect for `duration` ms, 'upgrade' raises the current
+// weapon's level, 'weapon' switches to (or upgrades) the pickup's weapon,
+// 'bomb' adds a bomb charge, 'heal' restores health and 'extraLife' adds a
+// ship
+export type PowerUpAction = 'timed' | 'upgrade' | 'weapon' | 'bomb' | 'heal' | 'extraLife';
+
+// How collecting a timed power-up that is already active combines with it:
+// 'refresh' restarts its timer, 'extend' adds `duration` to what's left,
+// 'level' raises its strength and restarts the timer, and 'stack' adds one
+// more of it without touching the timer
+export type StackingRule = 'refresh' | 'extend' | 'level' | 'stack';
+
+export interface PowerUpArchetype {
+  name: string;
+  symbol: string;
+  color: string;
+  // Infinity lasts until the ship is lost
+  duration: number;
+  action: PowerUpAction;
+  stacking: StackingRule;
+  // Highest level or stack count; for 'extend', the longest the effect can
+  // run in multiples of `duration`
+  maxStacks: number;
+  // Relative chance of being picked for a random drop
+  weight: number;
+}
+
+export const POWER_UP_ARCHETYPES: Record<PowerUpType, PowerUpArchetype> = {
+  rapidFire: { name: 'Rapid Fire', symbol: 'R', color: '#ff4444', duration: 10000, action: 'timed', stacking: 'refresh', maxStacks: 1, weight: 10 },
+  shield: { name: 'Shield', symbol: 'S', color: '#4444ff', duration: 8000, action: 'timed', stacking: 'extend', maxStacks: 3, weight: 10 },
+  upgrade: { name: 'Upgrade', symbol: 'P', color: '#ffaa00', duration: 0, action: 'upgrade', stacking: 'refresh', maxStacks: 1, weight: 8 },
+  bomb: { name: 'Bomb', symbol: 'B', color: '#ffdd44', duration: 0, action: 'bomb', stacking: 'refresh', maxStacks: 1, weight: 6 },
+  // Drawn with the symbol and color of the weapon it carries
+  weapon: { name: 'Weapon', symbol: 'W', color: '#44ffff', duration: 0, action: 'weapon', stacking: 'refresh', maxStacks: 1, weight: 8 },
+  heal: { name: 'Repair', symbol: '+', color: '#44ff88', duration: 0, action: 'heal', stacking: 'refresh', maxStacks: 1, weight: 8 },
+  extraLife: { name: 'Extra Life', symbol: '1', color: '#44ff44', duration: 0, action: 'extraLife', stacking: 'refresh', maxStacks: 1, weight: 1 },
+  homing: { name: 'Homing', symbol: 'G', color: '#ff88ff', duration: 12000, action: 'timed', stacking: 'level', maxStacks: 3, weight: 6 },
+  piercing: { name: 'Piercing', symbol: 'I', color: '#aaaaff', duration: 12000, action: 'timed', stacking: 'level', maxStacks: 3, weight: 6 },
+  magnet: { name: 'Magnet', symbol: 'M', color: '#ff8844', duration: 15000, action: 'timed', stacking: 'extend', maxStacks: 2, weight: 6 },
+  timeSlow: { name: 'Time Slow', symbol: 'T', color: '#8888ff', duration: 5000, action: 'timed', stacking: 'extend', maxStacks: 2, weight: 4 },
+  drone: { name: 'Drone', symbol: 'O', color: '#88ff44', duration: Infinity, action: 'timed', stacking: 'stack', maxStacks: 4, weight: 5 },
+  damageUp: { name: 'Damage Up', symbol: 'D', color: '#ff2266', duration: 10000, action: 'timed', stacking: 'level', maxStacks: 3, weight: 6 },
+  scoreDouble: { name: 'Score x2', symbol: '2', color: '#ffff44', duration: 10000, action: 'timed', stacking: 'refresh', maxStacks: 1, weight: 5 }
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_ARCHETYPES) as PowerUpType[];
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { DropTableSchema, bulletPatternName, color } from './catalog-schemas';
+import catalogData from './data/bosses.json';
+import { MovementBehaviorSchema } from './movement-behaviors';
+import { parseOrThrow } from './parse-catalog';
+
+/**
+ * Boss encounters, authored in `data/bosses.json`. A boss flies in
+ * invulnerable, then fights in phases: each phase starts once the boss's
+ * health falls to its threshold and swaps in a new movement behavior and
+ * bullet pattern. Weak points are separate targets attached to the hull;
+ * destroying one deals its `linkDamage` to the boss.
+ */
+
+const size = z.object({
+  width: z.number().positive(),
+  height: z.number().positive()
+});
+
+const BossWeaponSchema = z.object({
+  cooldown: z.number().positive(),
+  damage: z.number().nonnegative().default(15),
+  projectileSpeed: z.number().positive().default(4),
+  pattern: bulletPatternName
+});
+
+const BossPhaseSchema = z.object({
+  // Fraction of max health at which the phase starts
+  threshold: z.number().gt(0).max(1),
+  movement: MovementBehaviorSchema,
+  weapon: BossWeaponSchema,
+  // Hull color during the phase, defaults to the boss's appearance
+  color: color.optional()
+});
+
+const WeakPointSchema = z.object({
+  // Offset of the weak point's top left corner from the boss's
+  x: z.number(),
+  y: z.number(),
+  size,
+  health: z.number().positive(),
+  points: z.number().int().nonnegative(),
+  linkDamage: z.number().nonnegative(),
+  color,
+  weapon: BossWeaponSchema.optional()
+});
+
+const BossSchema = z.object({
+  name: z.string(),
+  size,
+  health: z.number().positive(),
+  points: z.number().int().nonnegative(),
+  contactDamage: z.number().nonnegative(),
+  // Top speed while following a phase's movement
+  speed: z.number().positive(),
+  appearance: z.object({
+    color,
+    accent: color
+  }),
+  intro: z.object({
+    // Height the boss flies in to, as a fraction of the playfield
+    y: z.number().min(0).max(1).default(0.15),
+    // Milliseconds the boss is invulnerable while it flies in
+    duration: z.number().nonnegative().default(3000)
+  }),
+  phases: z.array(BossPhaseSchema).min(1)
+    .refine(phases => phases[0].threshold === 1, 'The first phase must start at threshold 1')
+    .refine(
+      phases => phases.every((phase, i) => i === 0 || phase.threshold < phases[i - 1].threshold),
+      'Phase thresholds must decrease'
+    ),
+  weakPoints: z.array(WeakPointSchema).default([]),
+  drops: DropTableSchema.optional()
+});
+
+const BossCatalogSchema = z.record(z.string(), BossSchema)
+  .refine(catalog => Object.keys(catalog).length > 0, 'Catalog defines no bosses');
+
+export type BossWeapon = z.infer<typeof BossWeaponSchema>;
+export type BossPhase = z.infer<typeof BossPhaseSchema>;
+export type WeakPoint = z.infer<typeof WeakPointSchema>;
+export type BossDefinition = z.infer<typeof BossSchema>;
+export type BossCatalog = z.infer<typeof BossCatalogSchema>;
+
+export function parseBossCatalog(data: unknown): BossCatalog {
+  return parseOrThrow(BossCatalogSchema, data, 'boss catalog');
+}
+
+export const BOSS_CATALOG = parseBossCatalog(catalogData);
+
+export function getBossDefinition(type: string): BossDefinition {
+  const boss = BOSS_CATALOG[type];
+  if (!boss) {
+    throw new Error(`Unknown boss type: ${type}`);
+  }
+  return boss;
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import patternData from './data/bullet-patterns.json';
+import { parseOrThrow } from './parse-catalog';
+
+/**
+ * Named enemy bullet patterns, authored in `data/bullet-patterns.json`.
+ *
+ * Leaf patterns (aimed, spread, ring, spiral) spawn bullets; combinators
+ * (burst, sequence, group) schedule other patterns, and `ref` reuses a
+ * named one, so harder patterns are built out of simpler ones. Angles are
+ * degrees from straight down, positive towards the right; speeds default
+ * to the firing weapon's projectile speed.
+ */
+
+const BulletMotionSchema = z.object({
+  // Milliseconds after firing before the bullet starts changing speed
+  delay: z.number().nonnegative().default(0),
+  targetSpeed: z.number().nonnegative(),
+  // Speed change per tick until `targetSpeed` is reached
+  acceleration: z.number().positive()
+});
+
+export type BulletMotion = z.infer<typeof BulletMotionSchema>;
+
+interface BulletOptions {
+  speed?: number;
+  motion?: BulletMotion;
+}
+
+export type BulletPattern =
+  | { type: 'aimed' } & BulletOptions
+  | { type: 'spread'; count: number; arc: number; angle: number; aimed: boolean } & BulletOptions
+  | { type: 'ring'; count: number; angle: number; aimed: boolean } & BulletOptions
+  | { type: 'spiral'; arms: number; step: number } & BulletOptions
+  | { type: 'burst'; shots: number; delay: number; pattern: BulletPattern }
+  | { type: 'sequence'; steps: Array<{ delay: number; pattern: BulletPattern }> }
+  | { type: 'group'; patterns: BulletPattern[] }
+  | { type: 'ref'; name: string };
+
+const bulletOptions = {
+  speed: z.number().positive().optional(),
+  motion: BulletMotionSchema.optional()
+};
+
+const BulletPatternSchema: z.ZodType<BulletPattern, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    // One bullet at the player
+    z.object({ type: z.literal('aimed'), ...bulletOptions }),
+    // `count` bullets fanned evenly across `arc` degrees
+    z.object({
+      type: z.literal('spread'),
+      count: z.number().int().positive(),
+      arc: z.number().min(0).max(360),
+      angle: z.number().default(0),
+      aimed: z.boolean().default(false),
+      ...bulletOptions
+    }),
+    // `count` bullets evenly around a full circle
+    z.object({
+      type: z.literal('ring'),
+      count: z.number().int().positive(),
+      angle: z.number().default(0),
+      aimed: z.boolean().default(false),
+      ...bulletOptions
+    }),
+    // Ring of `arms` bullets that turns by `step` degrees every time it fires
+    z.object({
+      type: z.literal('spiral'),
+      arms: z.number().int().positive().default(1),
+      step: z.number(),
+      ...bulletOptions
+    }),
+    z.object({
+      type: z.literal('burst'),
+      shots: z.number().int().positive(),
+      // Milliseconds between shots
+      delay: z.number().nonnegative(),
+      pattern: BulletPatternSchema
+    }),
+    z.object({
+      type: z.literal('sequence'),
+      // Each step fires `delay` milliseconds after the sequence starts
+      steps: z.array(z.object({
+        delay: z.number().nonnegative().default(0),
+        pattern: BulletPatternSchema
+      })).min(1)
+    }),
+    // Fires every pattern at once
+    z.object({
+      type: z.literal('group'),
+      patterns: z.array(BulletPatternSchema).min(1)
+    }),
+    z.object({ type: z.literal('ref'), name: z.string() })
+  ])
+);
+
+const BulletPatternLibrarySchema = z.record(z.string(), BulletPatternSchema);
+
+export type BulletPatternLibrary = Record<string, BulletPattern>;
+
+function children(pattern: BulletPattern): BulletPattern[] {
+  switch (pattern.type) {
+    case 'burst':
+      return [pattern.pattern];
+    case 'sequence':
+      return pattern.steps.map(step => step.pattern);
+    case 'group':
+      return pattern.patterns;
+    default:
+      return [];
+  }
+}
+
+// Every `ref` must name a pattern in the library, without cycles
+function checkReferences(library: BulletPatternLibrary): string[] {
+  const problems: string[] = [];
+
+  const visit = (name: string, pattern: BulletPattern, path: string[]) => {
+    if (pattern.type === 'ref') {
+      if (!(pattern.name in library)) {
+        problems.push(`${name}: Unknown pattern: ${pattern.name}`);
+      } else if (path.includes(pattern.name)) {
+        problems.push(`${name}: Circular reference: ${[...path, pattern.name].join(' -> ')}`);
+      } else {
+        visit(name, library[pattern.name], [...path, pattern.name]);
+      }
+      return;
+    }
+    children(pattern).forEach(child => visit(name, child, path));
+  };
+
+  Object.entries(library).forEach(([name, pattern]) => visit(name, pattern, [name]));
+  return problems;
+}
+
+/** Validates raw pattern data, including that every `ref` resolves. */
+export function parseBulletPatterns(data: unknown): BulletPatternLibrary {
+  return parseOrThrow(BulletPatternLibrarySchema, data, 'bullet patterns', checkReferences);
+}
+
+export const BULLET_PATTERNS = parseBulletPatterns(patternData);
+
+export function getBulletPattern(name: string): BulletPattern {
+  const pattern = BULLET_PATTERNS[name];
+  if (!pattern) {
+    throw new Error(`Unknown bullet pattern: ${name}`);
+  }
+  return pattern;
+}
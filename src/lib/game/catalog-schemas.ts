@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { POWER_UP_ARCHETYPES } from './archetypes';
+import { BULLET_PATTERNS } from './bullet-patterns';
+import type { PowerUpType } from './types';
+
+/**
+ * Schemas shared by the enemy, boss, weapon and wave data.
+ */
+
+export const color = z.string().regex(/^#[0-9a-f]{6}$/i, 'Expected a #rrggbb color');
+
+export const bulletPatternName = z.string().refine(name => name in BULLET_PATTERNS, name => ({
+  message: `Unknown bullet pattern: ${name}`
+}));
+
+export const powerUpType = z.string().refine(
+  (type): type is PowerUpType => type in POWER_UP_ARCHETYPES,
+  type => ({ message: `Unknown power-up type: ${type}` })
+);
+
+/** What a kill can drop: a chance, and the power-ups to pick from by weight. */
+export const DropTableSchema = z.object({
+  // Chance per kill; 1 always drops, whatever the difficulty
+  chance: z.number().min(0).max(1),
+  // Pickups per drop
+  count: z.number().int().positive().default(1),
+  table: z.array(z.object({
+    type: powerUpType,
+    weight: z.number().positive()
+  })).min(1)
+});
+
+export type DropTable = z.infer<typeof DropTableSchema>;
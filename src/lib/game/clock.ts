@@ -0,0 +1,66 @@
+/**
+ * Source of simulation time in milliseconds.
+ *
+ * The engine advances the clock by exactly one fixed step per simulation
+ * tick, so every timer in the game (cooldowns, spawn intervals, power-up
+ * durations) reads the same value on every machine regardless of the
+ * display refresh rate. Tests can inject their own implementation to drive
+ * the simulation without `requestAnimationFrame`.
+ */
+export interface SimulationClock {
+  now(): number;
+  advance(ms: number): void;
+  reset(): void;
+}
+
+export class FixedStepClock implements SimulationClock {
+  private time = 0;
+
+  now() {
+    return this.time;
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+
+  reset() {
+    this.time = 0;
+  }
+}
+
+/**
+ * Pause-aware game time layered over a simulation clock.
+ *
+ * The engine keeps ticking its fixed-step loop while the game is paused or
+ * sitting in a menu, but game time only moves while it is marked running.
+ * Power-up durations, cooldowns and spawn timers read from this clock so
+ * they freeze in place on pause instead of draining in the background.
+ */
+export class GameClock implements SimulationClock {
+  private running = false;
+
+  constructor(private source: SimulationClock) {}
+
+  now() {
+    return this.source.now();
+  }
+
+  advance(ms: number) {
+    if (this.running) {
+      this.source.advance(ms);
+    }
+  }
+
+  reset() {
+    this.source.reset();
+  }
+
+  setRunning(running: boolean) {
+    this.running = running;
+  }
+
+  isRunning() {
+    return this.running;
+  }
+}
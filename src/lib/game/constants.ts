@@ -0,0 +1,16 @@
+// Playfield size in pixels
+export const CANVAS_WIDTH = 1200;
+export const CANVAS_HEIGHT = 800;
+
+// Simulation runs at a fixed 60 Hz; speeds below are in pixels per tick
+export const FIXED_TIMESTEP = 1000 / 60;
+
+export const PLAYER_SPEED = 5;
+// Sides of the square the player takes hits in and the wider one it grazes
+// bullets in, both centered on the 50x50 ship
+export const PLAYER_HITBOX_SIZE = 16;
+export const GRAZE_ZONE_SIZE = 96;
+export const POWERUP_SPEED = 1;
+
+// Broadphase grid cell size; roughly the size of the largest enemy
+export const COLLISION_CELL_SIZE = 96;
@@ -0,0 +1,99 @@
+/**
+ * Difficulty presets. Every field is a multiplier on the values the
+ * catalogs, wave script and spawner are authored with, so Normal (all 1s)
+ * plays exactly as authored.
+ */
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'insane';
+
+export interface DifficultySettings {
+  name: string;
+  color: string;
+  // Enemy and boss health, and so the hits it takes to destroy them
+  enemyHealth: number;
+  // Damage from enemy shots and from ramming enemies
+  damage: number;
+  bulletSpeed: number;
+  // Divides enemy weapon cooldowns
+  fireRate: number;
+  // Bullets per spread, ring and spiral volley
+  patternDensity: number;
+  // Enemies per spawn group
+  waveSize: number;
+  // Divides the gaps between spawns within a wave
+  spawnRate: number;
+  // Scales the minimum time between random power-up drops
+  powerUpInterval: number;
+  // Chance per tick of a drop once that time has passed
+  powerUpChance: number;
+  // Scales the chance of enemies dropping loot; guaranteed drops stay guaranteed
+  dropRate: number;
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    name: 'Easy',
+    color: '#44ff44',
+    enemyHealth: 0.75,
+    damage: 0.6,
+    bulletSpeed: 0.8,
+    fireRate: 0.85,
+    patternDensity: 0.7,
+    waveSize: 0.75,
+    spawnRate: 0.8,
+    powerUpInterval: 0.7,
+    powerUpChance: 0.15,
+    dropRate: 1.3
+  },
+  normal: {
+    name: 'Normal',
+    color: '#ffffff',
+    enemyHealth: 1,
+    damage: 1,
+    bulletSpeed: 1,
+    fireRate: 1,
+    patternDensity: 1,
+    waveSize: 1,
+    spawnRate: 1,
+    powerUpInterval: 1,
+    powerUpChance: 0.1,
+    dropRate: 1
+  },
+  hard: {
+    name: 'Hard',
+    color: '#ffaa00',
+    enemyHealth: 1.4,
+    damage: 1.35,
+    bulletSpeed: 1.2,
+    fireRate: 1.15,
+    patternDensity: 1.3,
+    waveSize: 1.3,
+    spawnRate: 1.25,
+    powerUpInterval: 1.4,
+    powerUpChance: 0.07,
+    dropRate: 0.8
+  },
+  insane: {
+    name: 'Insane',
+    color: '#ff4444',
+    enemyHealth: 2,
+    damage: 1.75,
+    bulletSpeed: 1.45,
+    fireRate: 1.3,
+    patternDensity: 1.6,
+    waveSize: 1.6,
+    spawnRate: 1.6,
+    powerUpInterval: 2,
+    powerUpChance: 0.05,
+    dropRate: 0.6
+  }
+};
+
+// Easiest first, the order the menu cycles through them
+export const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'normal', 'hard', 'insane'];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+export function isDifficulty(value: string): value is Difficulty {
+  return value in DIFFICULTIES;
+}
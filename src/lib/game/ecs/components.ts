@@ -0,0 +1,223 @@
+import type { MovementBehavior } from '../movement-behaviors';
+import type { With } from './world';
+import type { PowerUpEffect, PowerUpType, Vector2D } from '../types';
+
+/**
+ * Component data. Entities are plain objects carrying whichever of these
+ * they need; systems select entities by the components they have rather
+ * than by a type field, so a new enemy or projectile kind is a new
+ * combination of components instead of a new class or switch case.
+ */
+
+export interface Transform {
+  x: number;
+  y: number;
+  // Position at the start of the current tick, used for interpolated rendering
+  prevX: number;
+  prevY: number;
+  width: number;
+  height: number;
+}
+
+export type Velocity = Vector2D;
+
+export interface Health {
+  current: number;
+  max: number;
+  // Damage is ignored until this game time (enemy time on enemies)
+  invulnerableUntil: number;
+}
+
+export type CollisionLayer = 'player' | 'enemy' | 'playerShot' | 'enemyShot' | 'pickup';
+
+export interface Collider {
+  layer: CollisionLayer;
+  // Damage dealt to whatever this entity runs into
+  damage: number;
+  // Survives running into the player (bosses); other enemies are destroyed
+  persistent: boolean;
+}
+
+export interface Weapon {
+  cooldown: number;
+  lastShot: number; // game time, or enemy time on enemies
+  damage: number;
+  // Vertical projectile speed; negative fires up the screen
+  projectileSpeed: number;
+  // Automatic weapons fire whenever the cooldown allows; others wait for the trigger
+  automatic: boolean;
+  trigger: boolean;
+  // Named bullet pattern, or '' for a plain forward shot
+  pattern: string;
+  // Accumulated rotation of spiral patterns, in degrees
+  spin: number;
+}
+
+export interface SpeedChange {
+  startTime: number; // enemy time
+  targetSpeed: number;
+  // Per tick; zero leaves the speed alone
+  acceleration: number;
+}
+
+export interface Homing {
+  // Degrees per tick to turn towards the nearest enemy; zero flies straight
+  turnRate: number;
+}
+
+export interface Piercing {
+  // Further targets the projectile passes through before it is spent
+  remaining: number;
+  // Ids of entities already hit, so each is only damaged once
+  hits: number[];
+}
+
+export type SpriteShape = 'ship' | 'drone' | 'hull' | 'boss' | 'projectile' | 'beam' | 'pickup' | 'particle';
+
+export interface Sprite {
+  shape: SpriteShape;
+  color: string;
+  symbol: string;
+}
+
+export interface Movement {
+  behavior: MovementBehavior;
+  speed: number;
+  // Center of the entity when it spawned; behaviors are laid out around it
+  originX: number;
+  originY: number;
+  // Behavior-specific stage (e.g. descending, holding, peeling off) and when it began
+  stage: number;
+  stageStart: number; // enemy time
+}
+
+export interface Lifetime {
+  remaining: number;
+  total: number;
+}
+
+export interface ScoreValue {
+  points: number;
+}
+
+export interface Boss {
+  // Key into the boss catalog
+  type: string;
+  // Index of the current phase; -1 during the intro
+  phase: number;
+  introUntil: number; // enemy time
+}
+
+// Keeps an entity at a fixed offset from its parent, e.g. a boss weak point
+export interface Attachment {
+  parent: With<'transform'> | null;
+  parentId: number;
+  offsetX: number;
+  offsetY: number;
+  // Damage dealt to the parent when this entity is destroyed
+  linkDamage: number;
+}
+
+export interface Loadout {
+  // Key into the weapon catalog
+  weapon: string;
+  level: number; // 1 to MAX_WEAPON_LEVEL
+}
+
+// Area that takes hits, centered on the transform; smaller than the sprite
+export interface Hitbox {
+  width: number;
+  height: number;
+}
+
+export interface GrazingShot {
+  shot: With<'transform' | 'collider'>;
+  shotId: number;
+}
+
+export interface Graze {
+  // Zone, centered on the transform, that enemy shots graze by passing through
+  width: number;
+  height: number;
+  // Grazes this ship has scored over the run
+  count: number;
+  // Grazes towards the next overdrive
+  meter: number;
+  overdriveUntil: number; // game time
+  // Shots inside the zone; those that leave it without hitting score a graze
+  shots: GrazingShot[];
+}
+
+export interface PlayerControl {
+  // 0 for player one, 1 for player two; picks the ship's part of the input
+  slot: number;
+  // Points from this ship's own kills and grazes; the run's score is the
+  // team total, wave bonuses included
+  score: number;
+  // Where the ship comes back in, horizontally
+  spawnX: number;
+  speed: number;
+  powerUps: PowerUpEffect[];
+  loadout: Loadout;
+  bombs: number;
+  // Bombs go off when the button is pressed, not for as long as it's held
+  bombHeld: boolean;
+  // Game time the ship comes back after being destroyed; null while in play
+  // and Infinity once it is out of lives
+  respawnAt: number | null;
+  // Time a partner has spent beside the ship while it is out of lives
+  reviveProgress: number;
+}
+
+// How a ship's option drones line up: 'spread' in pairs beside it, 'snake'
+// trailing along its path, 'orbit' circling it and 'front' in a row ahead
+export type DroneFormation = 'spread' | 'snake' | 'orbit' | 'front';
+
+export interface Wing {
+  formation: DroneFormation;
+  // Formations change when the button is pressed, not for as long as it's held
+  switchHeld: boolean;
+  // Where the ship has been, newest first, for snake drones to follow
+  trail: Array<[number, number]>;
+}
+
+export interface Pickup {
+  type: PowerUpType;
+  duration: number;
+  // Weapon granted by weapon pickups, '' for every other kind
+  weapon: string;
+}
+
+// 'outside' discards an entity past any playfield edge. 'leaving' lets it
+// fly in from above or the sides, and only discards it past the bottom or
+// when heading out through a side.
+export type Culling = 'leaving' | 'outside';
+
+export interface Components {
+  // Catalog key the entity was spawned from
+  archetype: string;
+  // Slot of the player whose weapon fired a shot, -1 for enemy shots
+  shooter: number;
+  transform: Transform;
+  velocity: Velocity;
+  speedChange: SpeedChange;
+  homing: Homing;
+  piercing: Piercing;
+  movement: Movement;
+  health: Health;
+  collider: Collider;
+  weapon: Weapon;
+  sprite: Sprite;
+  lifetime: Lifetime;
+  scoreValue: ScoreValue;
+  boss: Boss;
+  attachment: Attachment;
+  playerControl: PlayerControl;
+  hitbox: Hitbox;
+  graze: Graze;
+  wing: Wing;
+  pickup: Pickup;
+  culling: Culling;
+}
+
+export type ComponentName = keyof Components;
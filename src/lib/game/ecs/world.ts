@@ -0,0 +1,64 @@
+import { Pool } from '../pool';
+import type { ComponentName, Components } from './components';
+
+export interface Entity extends Partial<Components> {
+  // Unique per spawn, so a recycled object can be told apart from its
+  // previous life. Anything holding on to an entity across ticks also keeps
+  // the id it had then, and drops the reference once the two differ.
+  id: number;
+  active: boolean;
+}
+
+/** An entity known to carry the components `K`. */
+export type With<K extends ComponentName> = Entity & Pick<Components, K>;
+
+/**
+ * Container for every entity in a simulation (or a renderer's effects).
+ *
+ * Entities live in fixed-capacity pools, one per shape of entity, so
+ * spawning stays allocation-free. Queries visit pools in the order they
+ * were created, and each pool in spawn order, which keeps iteration
+ * deterministic for replays.
+ */
+export class World {
+  private pools: Pool<Entity>[] = [];
+  private nextId = 1;
+
+  createPool<T extends Entity>(factory: () => T, capacity: number): Pool<T> {
+    const pool = new Pool<T>(factory, capacity);
+    this.pools.push(pool);
+    return pool;
+  }
+
+  /** Takes an entity from `pool`, or returns null if the pool is exhausted. */
+  spawn<T extends Entity>(pool: Pool<T>): T | null {
+    const entity = pool.acquire();
+    if (entity) {
+      entity.id = this.nextId++;
+    }
+    return entity;
+  }
+
+  /** Visits every active entity that has all of `components`. */
+  each<K extends ComponentName>(components: readonly K[], callback: (entity: With<K>) => void) {
+    for (const pool of this.pools) {
+      pool.forEach(entity => {
+        if (!entity.active) return;
+        for (const component of components) {
+          if (entity[component] === undefined) return;
+        }
+        callback(entity as With<K>);
+      });
+    }
+  }
+
+  /** Recycles entities flagged inactive during the tick. */
+  sweep() {
+    this.pools.forEach(pool => pool.sweep());
+  }
+
+  clear() {
+    this.pools.forEach(pool => pool.releaseAll());
+    this.nextId = 1;
+  }
+}
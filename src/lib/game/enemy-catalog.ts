@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { DropTableSchema, bulletPatternName, color } from './catalog-schemas';
+import catalogData from './data/enemies.json';
+import { MovementBehaviorSchema } from './movement-behaviors';
+import { parseOrThrow } from './parse-catalog';
+
+/**
+ * Enemy archetypes, authored in `data/enemies.json` and validated on load.
+ * The keys of the catalog are the enemy types the rest of the game refers
+ * to, so adding an enemy is a data change only.
+ */
+
+const EnemyArchetypeSchema = z.object({
+  size: z.object({
+    width: z.number().positive(),
+    height: z.number().positive()
+  }),
+  // In player weapon damage; the starting weapon deals 10 a shot
+  health: z.number().positive(),
+  points: z.number().int().nonnegative(),
+  // Damage dealt to the player on collision
+  contactDamage: z.number().nonnegative(),
+  appearance: z.object({
+    color
+  }),
+  weapon: z.object({
+    cooldown: z.number().positive(),
+    damage: z.number().nonnegative(),
+    projectileSpeed: z.number().positive(),
+    // Name of the pattern fired every `cooldown` ms, see `bullet-patterns.ts`
+    pattern: bulletPatternName.default('single')
+  }),
+  movement: z.object({
+    speed: z.number().nonnegative(),
+    behavior: MovementBehaviorSchema.default({ type: 'straight', angle: 0 })
+  }),
+  spawn: z.object({
+    // Spawn height; negative values start above the playfield
+    y: z.number(),
+    // First wave in which the archetype joins the random spawn pool
+    fromWave: z.number().int().positive()
+  }),
+  drops: DropTableSchema.optional()
+});
+
+const EnemyCatalogSchema = z.record(z.string(), EnemyArchetypeSchema)
+  .refine(catalog => Object.keys(catalog).length > 0, 'Catalog defines no enemies');
+
+export type EnemyArchetype = z.infer<typeof EnemyArchetypeSchema>;
+export type EnemyCatalog = z.infer<typeof EnemyCatalogSchema>;
+
+export function parseEnemyCatalog(data: unknown): EnemyCatalog {
+  return parseOrThrow(EnemyCatalogSchema, data, 'enemy catalog');
+}
+
+export const ENEMY_CATALOG = parseEnemyCatalog(catalogData);
+
+export function getEnemyArchetype(type: string): EnemyArchetype {
+  const archetype = ENEMY_CATALOG[type];
+  if (!archetype) {
+    throw new Error(`Unknown enemy type: ${type}`);
+  }
+  return archetype;
+}
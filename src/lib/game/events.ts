@@ -0,0 +1,29 @@
+import type { DifficultyAdjustment } from './systems/adaptive-difficulty';
+import type { PowerUpType } from './types';
+
+/**
+ * Things that happened during a tick that presentation layers care about.
+ * The simulation never draws or plays audio itself; the canvas renderer,
+ * sound player and gamepad rumble subscribe to these instead. Events about
+ * one ship carry its player slot.
+ */
+export type SimulationEvent =
+  | { type: 'playerShot' }
+  | { type: 'enemyHit'; x: number; y: number }
+  | { type: 'enemyDestroyed'; x: number; y: number }
+  | { type: 'playerHit'; slot: number; x: number; y: number }
+  | { type: 'playerRammed'; slot: number; x: number; y: number }
+  | { type: 'playerDestroyed'; slot: number; x: number; y: number }
+  | { type: 'playerRevived'; x: number; y: number }
+  | { type: 'extraLife' }
+  | { type: 'bombDetonated'; slot: number; x: number; y: number }
+  | { type: 'graze'; x: number; y: number }
+  | { type: 'droneDestroyed'; x: number; y: number }
+  | { type: 'overdriveStarted' }
+  | { type: 'powerUpCollected'; powerUp: PowerUpType }
+  | { type: 'waveCleared'; wave: number }
+  | { type: 'difficultyAdjusted'; adjustment: DifficultyAdjustment }
+  | { type: 'bossPhaseChanged'; phase: number; x: number; y: number }
+  | { type: 'bossDefeated'; x: number; y: number };
+
+export type SimulationListener = (event: SimulationEvent) => void;
@@ -0,0 +1,51 @@
+/**
+ * Player input for one simulation tick, packed into a bitmask so it can be
+ * recorded and replayed cheaply. In co-op, player two's flags follow
+ * player one's in the same mask.
+ */
+export const InputFlag = {
+  UP: 1 << 0,
+  DOWN: 1 << 1,
+  LEFT: 1 << 2,
+  RIGHT: 1 << 3,
+  SHOOT: 1 << 4,
+  BOMB: 1 << 5,
+  FORMATION: 1 << 6
+} as const;
+
+// Each player's flags take a byte of the tick's input, player one's lowest
+export const PLAYER_INPUT_BITS = 8;
+
+/** The flags of the player in `slot` from a tick's input. */
+export function playerInput(input: number, slot: number) {
+  return (input >> (slot * PLAYER_INPUT_BITS)) & ((1 << PLAYER_INPUT_BITS) - 1);
+}
+
+// Analog stick throttle, packed above both players' flags: three bits per
+// axis and player, counting eighths of full speed. 0 stands for full speed,
+// so keys and the D-pad, which never set these bits, move at full speed.
+const THROTTLE_SHIFT = 2 * PLAYER_INPUT_BITS;
+const THROTTLE_BITS = 3;
+const THROTTLE_STEPS = 1 << THROTTLE_BITS;
+
+function throttleLevel(amount: number) {
+  const level = Math.max(1, Math.round(Math.min(1, amount) * THROTTLE_STEPS));
+  return level >= THROTTLE_STEPS ? 0 : level;
+}
+
+/**
+ * Input bits slowing the player in `slot` to `x` and `y` (0 to 1) of full
+ * speed along each axis, rounded to the nearest eighth.
+ */
+export function throttleInput(slot: number, x: number, y: number) {
+  const shift = THROTTLE_SHIFT + slot * THROTTLE_BITS * 2;
+  return (throttleLevel(x) | (throttleLevel(y) << THROTTLE_BITS)) << shift;
+}
+
+/** Fraction of full speed the player in `slot` moves at horizontally and vertically. */
+export function playerThrottle(input: number, slot: number): [number, number] {
+  const bits = input >> (THROTTLE_SHIFT + slot * THROTTLE_BITS * 2);
+  const x = bits & (THROTTLE_STEPS - 1);
+  const y = (bits >> THROTTLE_BITS) & (THROTTLE_STEPS - 1);
+  return [x === 0 ? 1 : x / THROTTLE_STEPS, y === 0 ? 1 : y / THROTTLE_STEPS];
+}
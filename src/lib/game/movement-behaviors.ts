@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import type { Vector2D } from './types';
+
+/**
+ * Enemy movement behaviors as data. The enemy catalog gives every
+ * archetype a default behavior and wave groups may override it; the
+ * behavior system turns them into per-tick velocities.
+ *
+ * Positions and heights are fractions of the playfield so paths survive
+ * resolution changes; times are milliseconds and speeds come from the
+ * archetype. Paths should leave through the bottom or sides, since enemies
+ * are never culled through the top.
+ */
+
+// [x, y] as playfield fractions; y may be negative to start above the screen
+const point = z.tuple([z.number(), z.number()]);
+const fraction = z.number().min(0).max(1);
+
+export const MovementBehaviorSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('straight'),
+    // Heading in degrees from straight down, positive towards the right
+    angle: z.number().min(-60).max(60).default(0)
+  }),
+  z.object({
+    type: z.literal('sine'),
+    amplitude: z.number().positive().default(60),
+    period: z.number().positive().default(2000)
+  }),
+  z.object({
+    type: z.literal('zigzag'),
+    amplitude: z.number().positive().default(80),
+    period: z.number().positive().default(1500)
+  }),
+  z.object({
+    // Descends to `triggerY`, then locks on to the player's position and charges
+    type: z.literal('dive'),
+    triggerY: fraction.default(0.3),
+    speedMultiplier: z.number().positive().default(2.5)
+  }),
+  z.object({
+    // Flies to a slot at `holdY`, holds position, then peels off
+    type: z.literal('formation'),
+    holdY: fraction.default(0.2),
+    holdTime: z.number().nonnegative().default(3000),
+    peel: z.enum(['left', 'right', 'down']).default('down')
+  }),
+  z.object({
+    // Circles a point at `centerY` below its spawn column, then leaves
+    type: z.literal('orbit'),
+    centerY: fraction.default(0.3),
+    radius: z.number().positive().default(100),
+    period: z.number().positive().default(3000),
+    loops: z.number().positive().default(2)
+  }),
+  z.object({
+    // Drifts around where it started without leaving, tracing a figure
+    // eight when `amplitudeY` is set; used by bosses. Chases its point on
+    // the curve at up to the archetype's speed, so it can't jump
+    type: z.literal('hover'),
+    amplitudeX: z.number().nonnegative().default(200),
+    amplitudeY: z.number().nonnegative().default(0),
+    period: z.number().positive().default(6000)
+  }),
+  z.object({
+    // Piecewise cubic Bezier: start, then two control points and an end per segment
+    type: z.literal('bezier'),
+    points: z.array(point).min(4)
+      .refine(points => (points.length - 1) % 3 === 0, 'Bezier paths need 3n + 1 points'),
+    duration: z.number().positive()
+  }),
+  z.object({
+    // Catmull-Rom spline passing through every point
+    type: z.literal('spline'),
+    points: z.array(point).min(2),
+    duration: z.number().positive()
+  })
+]);
+
+export type MovementBehavior = z.infer<typeof MovementBehaviorSchema>;
+
+export type PathBehavior = Extract<MovementBehavior, { type: 'bezier' | 'spline' }>;
+
+export function isPathBehavior(behavior: MovementBehavior): behavior is PathBehavior {
+  return behavior.type === 'bezier' || behavior.type === 'spline';
+}
+
+/** Point on a path at `t` in [0, 1], in playfield fractions. */
+export function evaluatePath(path: PathBehavior, t: number): Vector2D {
+  const { points } = path;
+  const clamped = Math.max(0, Math.min(1, t));
+
+  if (path.type === 'bezier') {
+    const segments = (points.length - 1) / 3;
+    const index = Math.min(Math.floor(clamped * segments), segments - 1);
+    const u = clamped * segments - index;
+    const [p0, p1, p2, p3] = points.slice(index * 3, index * 3 + 4);
+    const v = 1 - u;
+    return {
+      x: v * v * v * p0[0] + 3 * v * v * u * p1[0] + 3 * v * u * u * p2[0] + u * u * u * p3[0],
+      y: v * v * v * p0[1] + 3 * v * v * u * p1[1] + 3 * v * u * u * p2[1] + u * u * u * p3[1]
+    };
+  }
+
+  const segments = points.length - 1;
+  const index = Math.min(Math.floor(clamped * segments), segments - 1);
+  const u = clamped * segments - index;
+  const p0 = points[Math.max(0, index - 1)];
+  const p1 = points[index];
+  const p2 = points[index + 1];
+  const p3 = points[Math.min(points.length - 1, index + 2)];
+  const catmullRom = (a: number, b: number, c: number, d: number) => 0.5 * (
+    2 * b +
+    (c - a) * u +
+    (2 * a - 5 * b + 4 * c - d) * u * u +
+    (3 * b - a - 3 * c + d) * u * u * u
+  );
+  return {
+    x: catmullRom(p0[0], p1[0], p2[0], p3[0]),
+    y: catmullRom(p0[1], p1[1], p2[1], p3[1])
+  };
+}
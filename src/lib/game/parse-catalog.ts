@@ -0,0 +1,23 @@
+import type { z } from 'zod';
+
+/**
+ * Validates raw data against a catalog schema, throwing with every problem
+ * found. `check` can report problems the schema can't express, such as
+ * references between entries; it only runs once the schema passes.
+ */
+export function parseOrThrow<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  label: string,
+  check?: (parsed: z.output<T>) => string[]
+): z.output<T> {
+  const result = schema.safeParse(data);
+  const problems = result.success
+    ? check?.(result.data) ?? []
+    : result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+  if (!result.success || problems.length > 0) {
+    throw new Error(`Invalid ${label}:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+  }
+  return result.data;
+}
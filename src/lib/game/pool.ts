@@ -0,0 +1,67 @@
+/**
+ * Fixed-capacity object pool for short-lived entities.
+ *
+ * Objects are created lazily up to `capacity` and then recycled: callers
+ * flag an object inactive during the tick, and `sweep()` moves every
+ * inactive object back onto the free list while compacting the active list
+ * in place. Nothing is allocated once the pool has warmed up, which keeps
+ * big explosions and bullet storms from churning the garbage collector.
+ */
+export class Pool<T extends { active: boolean }> {
+  private active: T[] = [];
+  private free: T[] = [];
+  private created = 0;
+
+  constructor(private factory: () => T, public readonly capacity: number) {}
+
+  get size() {
+    return this.active.length;
+  }
+
+  /**
+   * Returns a recycled (or new) object flagged active, or null if the pool
+   * is at capacity. The caller is responsible for initialising every field.
+   */
+  acquire(): T | null {
+    let item = this.free.pop();
+    if (!item) {
+      if (this.created >= this.capacity) return null;
+      item = this.factory();
+      this.created++;
+    }
+    item.active = true;
+    this.active.push(item);
+    return item;
+  }
+
+  forEach(callback: (item: T) => void) {
+    // Iterate by index so objects acquired during the loop are skipped
+    // until the next pass, the same as Array.prototype.forEach
+    const count = this.active.length;
+    for (let i = 0; i < count; i++) {
+      callback(this.active[i]);
+    }
+  }
+
+  /** Returns inactive objects to the free list, preserving active order. */
+  sweep() {
+    let write = 0;
+    for (let read = 0; read < this.active.length; read++) {
+      const item = this.active[read];
+      if (item.active) {
+        this.active[write++] = item;
+      } else {
+        this.free.push(item);
+      }
+    }
+    this.active.length = write;
+  }
+
+  releaseAll() {
+    this.active.forEach(item => {
+      item.active = false;
+      this.free.push(item);
+    });
+    this.active.length = 0;
+  }
+}
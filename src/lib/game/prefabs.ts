@@ -0,0 +1,491 @@
+import { POWER_UP_ARCHETYPES } from './archetypes';
+import { getBossDefinition, type BossWeapon } from './boss-catalog';
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  FIXED_TIMESTEP,
+  GRAZE_ZONE_SIZE,
+  PLAYER_HITBOX_SIZE,
+  PLAYER_SPEED,
+  POWERUP_SPEED
+} from './constants';
+import type { CollisionLayer, Transform, Weapon } from './ecs/components';
+import type { With, World } from './ecs/world';
+import { getEnemyArchetype } from './enemy-catalog';
+import type { MovementBehavior } from './movement-behaviors';
+import type { Pool } from './pool';
+import type { SimulationContext } from './systems/context';
+import type { EnemyType, PowerUpType } from './types';
+import { STARTING_WEAPON, WEAPON_TYPES, getWeaponDefinition, type WeaponLevel } from './weapon-catalog';
+
+/**
+ * Entity shapes and the functions that spawn them. Each pool's factory
+ * allocates every component its entities use up front; the spawn functions
+ * then only overwrite values, so recycling an entity never allocates.
+ */
+
+export type PlayerEntity = With<'transform' | 'health' | 'collider' | 'weapon' | 'sprite' | 'playerControl' | 'hitbox' | 'graze' | 'wing'>;
+export type DroneEntity = With<'attachment' | 'transform' | 'weapon' | 'collider' | 'sprite'>;
+export type EnemyEntity = With<'archetype' | 'transform' | 'velocity' | 'movement' | 'health' | 'collider' | 'weapon' | 'sprite' | 'scoreValue' | 'culling'>;
+export type BossEntity = With<'boss' | 'transform' | 'velocity' | 'movement' | 'health' | 'collider' | 'weapon' | 'sprite' | 'scoreValue'>;
+export type BossPartEntity = With<'attachment' | 'transform' | 'health' | 'collider' | 'weapon' | 'sprite' | 'scoreValue'>;
+export type ProjectileEntity = With<'transform' | 'velocity' | 'speedChange' | 'homing' | 'piercing' | 'collider' | 'shooter' | 'sprite' | 'culling'>;
+export type BeamEntity = With<'attachment' | 'transform' | 'lifetime' | 'piercing' | 'collider' | 'shooter' | 'sprite'>;
+export type PickupEntity = With<'transform' | 'velocity' | 'collider' | 'sprite' | 'pickup' | 'culling'>;
+
+export interface PoolCapacity {
+  drones: number;
+  enemies: number;
+  bosses: number;
+  bossParts: number;
+  bullets: number;
+  beams: number;
+  powerUps: number;
+}
+
+export const DEFAULT_POOL_CAPACITY: PoolCapacity = {
+  drones: 8,
+  enemies: 256,
+  bosses: 2,
+  bossParts: 16,
+  bullets: 2048,
+  beams: 8,
+  powerUps: 64
+};
+
+// Pools are created in draw order, back to front
+export interface EntityPools {
+  players: Pool<PlayerEntity>;
+  drones: Pool<DroneEntity>;
+  enemies: Pool<EnemyEntity>;
+  bosses: Pool<BossEntity>;
+  bossParts: Pool<BossPartEntity>;
+  projectiles: Pool<ProjectileEntity>;
+  beams: Pool<BeamEntity>;
+  pickups: Pool<PickupEntity>;
+}
+
+export function createTransform(): Transform {
+  return { x: 0, y: 0, prevX: 0, prevY: 0, width: 0, height: 0 };
+}
+
+function place(transform: Transform, x: number, y: number, width: number, height: number) {
+  transform.x = x;
+  transform.y = y;
+  transform.prevX = x;
+  transform.prevY = y;
+  transform.width = width;
+  transform.height = height;
+}
+
+export function createEntityPools(world: World, capacity: PoolCapacity): EntityPools {
+  return {
+    players: world.createPool<PlayerEntity>(() => ({
+      id: 0,
+      active: false,
+      transform: createTransform(),
+      health: { current: 0, max: 0, invulnerableUntil: 0 },
+      collider: { layer: 'player', damage: 0, persistent: false },
+      weapon: { cooldown: 0, lastShot: 0, damage: 0, projectileSpeed: 0, automatic: false, trigger: false, pattern: '', spin: 0 },
+      sprite: { shape: 'ship', color: '', symbol: '' },
+      playerControl: {
+        slot: 0,
+        score: 0,
+        spawnX: 0,
+        speed: 0,
+        powerUps: [],
+        loadout: { weapon: '', level: 0 },
+        bombs: 0,
+        bombHeld: false,
+        respawnAt: null,
+        reviveProgress: 0
+      },
+      hitbox: { width: 0, height: 0 },
+      graze: { width: 0, height: 0, count: 0, meter: 0, overdriveUntil: 0, shots: [] },
+      wing: { formation: 'spread', switchHeld: false, trail: [] }
+    }), MAX_PLAYERS),
+    drones: world.createPool<DroneEntity>(() => ({
+      id: 0,
+      active: false,
+      attachment: { parent: null, parentId: 0, offsetX: 0, offsetY: 0, linkDamage: 0 },
+      transform: createTransform(),
+      // Fires whenever its ship does, see the drone system
+      weapon: { cooldown: 0, lastShot: 0, damage: 0, projectileSpeed: 0, automatic: false, trigger: false, pattern: '', spin: 0 },
+      collider: { layer: 'player', damage: 0, persistent: false },
+      sprite: { shape: 'drone', color: '', symbol: '' }
+    }), capacity.drones),
+    enemies: world.createPool<EnemyEntity>(() => ({
+      id: 0,
+      active: false,
+      archetype: '',
+      transform: createTransform(),
+      velocity: { x: 0, y: 0 },
+      movement: {
+        behavior: { type: 'straight', angle: 0 },
+        speed: 0,
+        originX: 0,
+        originY: 0,
+        stage: 0,
+        stageStart: 0
+      },
+      health: { current: 0, max: 0, invulnerableUntil: 0 },
+      collider: { layer: 'enemy', damage: 0, persistent: false },
+      weapon: { cooldown: 0, lastShot: 0, damage: 0, projectileSpeed: 0, automatic: true, trigger: false, pattern: '', spin: 0 },
+      sprite: { shape: 'hull', color: '', symbol: '' },
+      scoreValue: { points: 0 },
+      culling: 'leaving'
+    }), capacity.enemies),
+    bosses: world.createPool<BossEntity>(() => ({
+      id: 0,
+      active: false,
+      boss: { type: '', phase: -1, introUntil: 0 },
+      transform: createTransform(),
+      velocity: { x: 0, y: 0 },
+      movement: {
+        behavior: { type: 'straight', angle: 0 },
+        speed: 0,
+        originX: 0,
+        originY: 0,
+        stage: 0,
+        stageStart: 0
+      },
+      health: { current: 0, max: 0, invulnerableUntil: 0 },
+      collider: { layer: 'enemy', damage: 0, persistent: true },
+      weapon: { cooldown: 0, lastShot: 0, damage: 0, projectileSpeed: 0, automatic: true, trigger: false, pattern: '', spin: 0 },
+      sprite: { shape: 'boss', color: '', symbol: '' },
+      scoreValue: { points: 0 }
+    }), capacity.bosses),
+    bossParts: world.createPool<BossPartEntity>(() => ({
+      id: 0,
+      active: false,
+      attachment: { parent: null, parentId: 0, offsetX: 0, offsetY: 0, linkDamage: 0 },
+      transform: createTransform(),
+      health: { current: 0, max: 0, invulnerableUntil: 0 },
+      collider: { layer: 'enemy', damage: 0, persistent: true },
+      weapon: { cooldown: 0, lastShot: 0, damage: 0, projectileSpeed: 0, automatic: false, trigger: false, pattern: '', spin: 0 },
+      sprite: { shape: 'hull', color: '', symbol: '' },
+      scoreValue: { points: 0 }
+    }), capacity.bossParts),
+    projectiles: world.createPool<ProjectileEntity>(() => ({
+      id: 0,
+      active: false,
+      transform: createTransform(),
+      velocity: { x: 0, y: 0 },
+      speedChange: { startTime: 0, targetSpeed: 0, acceleration: 0 },
+      homing: { turnRate: 0 },
+      piercing: { remaining: 0, hits: [] },
+      collider: { layer: 'playerShot', damage: 0, persistent: false },
+      shooter: -1,
+      sprite: { shape: 'projectile', color: '', symbol: '' },
+      culling: 'outside'
+    }), capacity.bullets),
+    beams: world.createPool<BeamEntity>(() => ({
+      id: 0,
+      active: false,
+      attachment: { parent: null, parentId: 0, offsetX: 0, offsetY: 0, linkDamage: 0 },
+      transform: createTransform(),
+      lifetime: { remaining: 0, total: 0 },
+      piercing: { remaining: Infinity, hits: [] },
+      collider: { layer: 'playerShot', damage: 0, persistent: true },
+      shooter: -1,
+      sprite: { shape: 'beam', color: '', symbol: '' }
+    }), capacity.beams),
+    pickups: world.createPool<PickupEntity>(() => ({
+      id: 0,
+      active: false,
+      transform: createTransform(),
+      velocity: { x: 0, y: 0 },
+      collider: { layer: 'pickup', damage: 0, persistent: false },
+      sprite: { shape: 'pickup', color: '', symbol: '' },
+      pickup: { type: 'rapidFire', duration: 0, weapon: '' },
+      culling: 'leaving'
+    }), capacity.powerUps)
+  };
+}
+
+// Ships in co-op, and the color each player's ship is drawn in
+export const MAX_PLAYERS = 2;
+export const PLAYER_COLORS = ['#44ff44', '#44ddff'];
+
+// Bomb stock at the start of a run (and after respawning), and its cap
+export const STARTING_BOMBS = 3;
+export const MAX_BOMBS = 5;
+
+export function spawnPlayer(ctx: SimulationContext, slot = 0, spawnX = CANVAS_WIDTH / 2 - 25): PlayerEntity {
+  const player = ctx.world.spawn(ctx.pools.players);
+  if (!player) {
+    throw new Error('Player pool exhausted');
+  }
+
+  player.playerControl.slot = slot;
+  player.playerControl.score = 0;
+  player.playerControl.spawnX = spawnX;
+  player.playerControl.reviveProgress = 0;
+  player.graze.count = 0;
+  player.health.max = 100;
+  player.health.invulnerableUntil = 0;
+  restorePlayer(player);
+  player.collider.damage = 0;
+  player.weapon.lastShot = -Infinity;
+  player.weapon.trigger = false;
+  equipWeapon(player, STARTING_WEAPON, 1);
+  player.sprite.color = PLAYER_COLORS[slot % PLAYER_COLORS.length];
+  player.playerControl.speed = PLAYER_SPEED;
+  player.playerControl.powerUps = [];
+  player.playerControl.bombs = STARTING_BOMBS;
+  player.playerControl.bombHeld = false;
+  player.playerControl.respawnAt = null;
+  player.hitbox.width = PLAYER_HITBOX_SIZE;
+  player.hitbox.height = PLAYER_HITBOX_SIZE;
+  player.graze.width = GRAZE_ZONE_SIZE;
+  player.graze.height = GRAZE_ZONE_SIZE;
+  player.graze.meter = 0;
+  player.graze.overdriveUntil = 0;
+  player.wing.formation = 'spread';
+  player.wing.switchHeld = false;
+  return player;
+}
+
+/** Switches the player to `weapon` at `level`, updating the weapon's stats to match. */
+export function equipWeapon(player: With<'weapon' | 'playerControl'>, weapon: string, level: number) {
+  const stats = getWeaponDefinition(weapon).levels[level - 1];
+  player.playerControl.loadout.weapon = weapon;
+  player.playerControl.loadout.level = level;
+  player.weapon.cooldown = stats.cooldown;
+  player.weapon.damage = stats.damage;
+  player.weapon.projectileSpeed = -stats.speed;
+}
+
+/** Spawns `count` ships spread evenly along the bottom of the playfield. */
+export function spawnPlayers(ctx: SimulationContext, count: number): PlayerEntity[] {
+  const players: PlayerEntity[] = [];
+  for (let slot = 0; slot < count; slot++) {
+    players.push(spawnPlayer(ctx, slot, (CANVAS_WIDTH * (slot + 1)) / (count + 1) - 25));
+  }
+  return players;
+}
+
+/** Puts the player back at its starting position with full health. */
+export function restorePlayer(player: PlayerEntity) {
+  place(player.transform, player.playerControl.spawnX, CANVAS_HEIGHT - 80, 50, 50);
+  player.health.current = player.health.max;
+  player.graze.shots = [];
+  player.wing.trail = [];
+}
+
+export interface EnemySpawnOptions {
+  // Defaults to the archetype's spawn height
+  y?: number;
+  behavior?: MovementBehavior;
+  pattern?: string;
+}
+
+export function spawnEnemy(ctx: SimulationContext, type: EnemyType, x: number, options: EnemySpawnOptions = {}) {
+  const enemy = ctx.world.spawn(ctx.pools.enemies);
+  if (!enemy) return null;
+
+  const archetype = getEnemyArchetype(type);
+  enemy.archetype = type;
+  place(enemy.transform, x, options.y ?? archetype.spawn.y, archetype.size.width, archetype.size.height);
+  enemy.velocity.x = 0;
+  enemy.velocity.y = archetype.movement.speed;
+  enemy.movement.behavior = options.behavior ?? archetype.movement.behavior;
+  enemy.movement.speed = archetype.movement.speed;
+  enemy.movement.originX = enemy.transform.x + enemy.transform.width / 2;
+  enemy.movement.originY = enemy.transform.y + enemy.transform.height / 2;
+  enemy.movement.stage = 0;
+  enemy.movement.stageStart = ctx.enemyTime;
+  enemy.health.current = archetype.health * ctx.difficulty.enemyHealth;
+  enemy.health.max = archetype.health * ctx.difficulty.enemyHealth;
+  enemy.collider.damage = archetype.contactDamage;
+  enemy.weapon.cooldown = archetype.weapon.cooldown;
+  enemy.weapon.lastShot = 0;
+  enemy.weapon.damage = archetype.weapon.damage;
+  enemy.weapon.projectileSpeed = archetype.weapon.projectileSpeed;
+  enemy.weapon.pattern = options.pattern ?? archetype.weapon.pattern;
+  enemy.weapon.spin = 0;
+  enemy.sprite.color = archetype.appearance.color;
+  enemy.scoreValue.points = archetype.points;
+  return enemy;
+}
+
+// Weapons stay silent until `firstShot` and then fire every `cooldown` ms
+function arm(weapon: Weapon, stats: BossWeapon, firstShot: number) {
+  weapon.cooldown = stats.cooldown;
+  weapon.lastShot = firstShot - stats.cooldown;
+  weapon.damage = stats.damage;
+  weapon.projectileSpeed = stats.projectileSpeed;
+  weapon.pattern = stats.pattern;
+  weapon.spin = 0;
+}
+
+/**
+ * Spawns a boss above the playfield along with its weak points. The boss
+ * flies in invulnerable and holds fire until its intro ends; the boss
+ * system then starts its first phase.
+ */
+export function spawnBoss(ctx: SimulationContext, type: string, healthScale = 1) {
+  const boss = ctx.world.spawn(ctx.pools.bosses);
+  if (!boss) return null;
+
+  const scale = healthScale * ctx.difficulty.enemyHealth;
+  const definition = getBossDefinition(type);
+  const { width, height } = definition.size;
+  const introUntil = ctx.enemyTime + definition.intro.duration;
+  const [firstPhase] = definition.phases;
+
+  boss.boss.type = type;
+  boss.boss.phase = -1;
+  boss.boss.introUntil = introUntil;
+  place(boss.transform, CANVAS_WIDTH / 2 - width / 2, -height, width, height);
+  boss.velocity.x = 0;
+  boss.velocity.y = 0;
+
+  // Fly into position at a speed that arrives just before the intro ends
+  const slotY = definition.intro.y * CANVAS_HEIGHT;
+  const ticks = Math.max(1, definition.intro.duration / FIXED_TIMESTEP);
+  boss.movement.behavior = { type: 'formation', holdY: definition.intro.y, holdTime: Infinity, peel: 'down' };
+  boss.movement.speed = Math.max(1, ((slotY + height / 2) / ticks) * 1.25);
+  boss.movement.originX = CANVAS_WIDTH / 2;
+  boss.movement.originY = slotY;
+  boss.movement.stage = 0;
+  boss.movement.stageStart = ctx.enemyTime;
+
+  boss.health.current = definition.health * scale;
+  boss.health.max = definition.health * scale;
+  boss.health.invulnerableUntil = introUntil;
+  boss.collider.damage = definition.contactDamage;
+  arm(boss.weapon, firstPhase.weapon, introUntil);
+  boss.sprite.color = firstPhase.color ?? definition.appearance.color;
+  boss.scoreValue.points = definition.points;
+
+  for (const weakPoint of definition.weakPoints) {
+    const part = ctx.world.spawn(ctx.pools.bossParts);
+    if (!part) break;
+
+    part.attachment.parent = boss;
+    part.attachment.parentId = boss.id;
+    part.attachment.offsetX = weakPoint.x;
+    part.attachment.offsetY = weakPoint.y;
+    part.attachment.linkDamage = weakPoint.linkDamage * scale;
+    place(
+      part.transform,
+      boss.transform.x + weakPoint.x,
+      boss.transform.y + weakPoint.y,
+      weakPoint.size.width,
+      weakPoint.size.height
+    );
+    part.health.current = weakPoint.health * scale;
+    part.health.max = weakPoint.health * scale;
+    part.health.invulnerableUntil = introUntil;
+    part.collider.damage = definition.contactDamage;
+    part.weapon.automatic = weakPoint.weapon !== undefined;
+    if (weakPoint.weapon) {
+      arm(part.weapon, weakPoint.weapon, introUntil);
+    }
+    part.sprite.color = weakPoint.color;
+    part.scoreValue.points = weakPoint.points;
+  }
+
+  return boss;
+}
+
+export function spawnProjectile(
+  ctx: SimulationContext,
+  x: number,
+  y: number,
+  vx: number,
+  vy: number,
+  damage: number,
+  layer: CollisionLayer
+) {
+  const projectile = ctx.world.spawn(ctx.pools.projectiles);
+  if (!projectile) return null;
+
+  place(projectile.transform, x, y, 4, 8);
+  projectile.velocity.x = vx;
+  projectile.velocity.y = vy;
+  projectile.speedChange.acceleration = 0;
+  projectile.homing.turnRate = 0;
+  projectile.piercing.remaining = 0;
+  projectile.piercing.hits.length = 0;
+  projectile.collider.layer = layer;
+  projectile.collider.damage = damage;
+  projectile.shooter = -1;
+  projectile.sprite.color = layer === 'playerShot' ? '#ffff44' : '#ff8844';
+  return projectile;
+}
+
+/**
+ * A beam pulse: a column from `owner` to the top of the playfield that
+ * damages everything in it once and follows the owner until it fades.
+ */
+export function spawnBeam(ctx: SimulationContext, owner: With<'transform'>, stats: WeaponLevel, color: string) {
+  const beam = ctx.world.spawn(ctx.pools.beams);
+  if (!beam) return null;
+
+  const { transform } = owner;
+  beam.attachment.parent = owner;
+  beam.attachment.parentId = owner.id;
+  beam.attachment.offsetX = transform.width / 2 - stats.width / 2;
+  beam.attachment.offsetY = -CANVAS_HEIGHT;
+  place(
+    beam.transform,
+    transform.x + beam.attachment.offsetX,
+    transform.y + beam.attachment.offsetY,
+    stats.width,
+    CANVAS_HEIGHT
+  );
+  // Pulses overlap by a tick so the beam never flickers off
+  beam.lifetime.remaining = stats.cooldown + FIXED_TIMESTEP * 1.5;
+  beam.lifetime.total = beam.lifetime.remaining;
+  beam.piercing.hits.length = 0;
+  beam.collider.damage = stats.damage;
+  beam.shooter = owner.playerControl?.slot ?? -1;
+  beam.sprite.color = color;
+  return beam;
+}
+
+/** Spawns an option drone attached to `owner`; the drone system places it. */
+export function spawnDrone(ctx: SimulationContext, owner: With<'transform'>) {
+  const drone = ctx.world.spawn(ctx.pools.drones);
+  if (!drone) return null;
+
+  const { transform } = owner;
+  drone.attachment.parent = owner;
+  drone.attachment.parentId = owner.id;
+  drone.attachment.offsetX = transform.width / 2 - 8;
+  drone.attachment.offsetY = transform.height / 2 - 8;
+  place(drone.transform, transform.x + drone.attachment.offsetX, transform.y + drone.attachment.offsetY, 16, 16);
+  drone.weapon.cooldown = 300;
+  drone.weapon.lastShot = -Infinity;
+  drone.weapon.damage = 5;
+  drone.weapon.projectileSpeed = -8;
+  drone.weapon.trigger = false;
+  drone.sprite.color = POWER_UP_ARCHETYPES.drone.color;
+  return drone;
+}
+
+/** Drops a pickup, from the top by default; weapon pickups carry `weapon`, or a random one. */
+export function spawnPickup(ctx: SimulationContext, type: PowerUpType, x: number, y = -30, weapon?: string) {
+  const pickup = ctx.world.spawn(ctx.pools.pickups);
+  if (!pickup) return null;
+
+  const archetype = POWER_UP_ARCHETYPES[type];
+  place(pickup.transform, x, y, 30, 30);
+  pickup.velocity.x = 0;
+  pickup.velocity.y = POWERUP_SPEED;
+  pickup.sprite.color = archetype.color;
+  pickup.sprite.symbol = archetype.symbol;
+  pickup.pickup.type = type;
+  pickup.pickup.duration = archetype.duration;
+  pickup.pickup.weapon = '';
+
+  if (archetype.action === 'weapon') {
+    pickup.pickup.weapon = weapon ?? ctx.random.pick(WEAPON_TYPES);
+    const definition = getWeaponDefinition(pickup.pickup.weapon);
+    pickup.sprite.color = definition.color;
+    pickup.sprite.symbol = definition.symbol;
+  }
+  return pickup;
+}
@@ -0,0 +1,66 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * Every gameplay roll goes through one instance owned by the engine, so a
+ * run is fully determined by its seed and the player's input. Seeds are
+ * unsigned 32-bit integers.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(public seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  reset(seed = this.seed) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Returns a float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns a float in [min, max). */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Returns an integer in [0, max). */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Parses a seed from user input such as a `?seed=` query parameter.
+ * Numeric strings are used as-is; anything else is hashed (FNV-1a) so
+ * memorable words work as seeds too.
+ */
+export function parseSeed(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value)) {
+    return Number(value) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
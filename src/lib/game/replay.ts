@@ -0,0 +1,181 @@
+import { isDifficulty, type Difficulty } from './difficulty';
+import { MAX_PLAYERS } from './prefabs';
+import { GameSimulation, type PlayerSetup } from './simulation';
+
+/**
+ * Input recording and playback.
+ *
+ * The simulation is deterministic given its seed, difficulty settings,
+ * player setup and the input applied on each fixed tick, so a replay only
+ * stores those. Input masks
+ * (see `InputFlag`) are run-length encoded, since held keys produce long
+ * runs of identical masks.
+ */
+
+const REPLAY_VERSION = 4;
+
+export interface Replay {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  adaptive: boolean;
+  players: PlayerSetup;
+  ticks: number;
+  // Score reached at the end of the recorded run, used to verify playback
+  score: number;
+  // Run-length encoded input: [mask, tickCount] pairs
+  runs: Array<[number, number]>;
+}
+
+export class ReplayRecorder {
+  private runs: Array<[number, number]> = [];
+  private ticks = 0;
+
+  constructor(
+    private seed: number,
+    private difficulty: Difficulty,
+    private adaptive: boolean,
+    private players: PlayerSetup
+  ) {}
+
+  record(input: number) {
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[0] === input) {
+      last[1]++;
+    } else {
+      this.runs.push([input, 1]);
+    }
+    this.ticks++;
+  }
+
+  finish(score: number): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      difficulty: this.difficulty,
+      adaptive: this.adaptive,
+      players: { ...this.players },
+      ticks: this.ticks,
+      score,
+      runs: this.runs.map(([mask, count]) => [mask, count])
+    };
+  }
+}
+
+/**
+ * Sequential reader over a replay's inputs. Seeking backwards means
+ * re-simulating from tick 0, so only forward iteration is supported.
+ */
+export class ReplayCursor {
+  private runIndex = 0;
+  private runOffset = 0;
+  private tick = 0;
+
+  constructor(private replay: Replay) {}
+
+  get position() {
+    return this.tick;
+  }
+
+  get done() {
+    return this.tick >= this.replay.ticks;
+  }
+
+  // Past the last run there is no input, but the position still advances
+  // so `done` is reached
+  next(): number {
+    const run = this.replay.runs[this.runIndex];
+    this.tick++;
+    if (!run) return 0;
+
+    if (++this.runOffset >= run[1]) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+    return run[0];
+  }
+}
+
+/**
+ * Re-runs a replay headlessly and checks that it reproduces the recorded
+ * score, e.g. to validate a submitted high score.
+ */
+export function verifyReplay(replay: Replay): boolean {
+  const { difficulty, adaptive, players } = replay;
+  const simulation = new GameSimulation({ difficulty, adaptive, players });
+  const cursor = new ReplayCursor(replay);
+
+  simulation.reset(replay.seed, difficulty, adaptive, players);
+  while (!cursor.done && !simulation.isGameOver) {
+    simulation.tick(cursor.next());
+  }
+
+  return cursor.done && simulation.stats.score === replay.score;
+}
+
+/**
+ * Serializes a replay as
+ * `v<version>.<difficulty>.<adaptive>.<players>.<sharedLives>.<seed>.<ticks>.<score>.<runs>`
+ * with `adaptive` and `sharedLives` as 0 or 1, all numbers in base 36 and
+ * runs written as `mask:count` pairs.
+ */
+export function encodeReplay(replay: Replay): string {
+  const runs = replay.runs
+    .map(([mask, count]) => `${mask.toString(36)}:${count.toString(36)}`)
+    .join(',');
+  return [
+    `v${replay.version}`,
+    replay.difficulty,
+    replay.adaptive ? '1' : '0',
+    replay.players.count.toString(36),
+    replay.players.sharedLives ? '1' : '0',
+    replay.seed.toString(36),
+    replay.ticks.toString(36),
+    replay.score.toString(36),
+    runs
+  ].join('.');
+}
+
+export function decodeReplay(text: string): Replay | null {
+  const [version, difficulty, adaptive, players, sharedLives, seed, ticks, score, runs] = text.split('.');
+  if (version !== `v${REPLAY_VERSION}` || !isDifficulty(difficulty) || runs === undefined) return null;
+  if (adaptive !== '0' && adaptive !== '1') return null;
+  if (sharedLives !== '0' && sharedLives !== '1') return null;
+
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    seed: parseInt(seed, 36),
+    difficulty,
+    adaptive: adaptive === '1',
+    players: { count: parseInt(players, 36), sharedLives: sharedLives === '1' },
+    ticks: parseInt(ticks, 36),
+    score: parseInt(score, 36),
+    runs: runs === '' ? [] : runs.split(',').map(run => {
+      const [mask, count] = run.split(':');
+      return [parseInt(mask, 36), parseInt(count, 36)];
+    })
+  };
+
+  const values = [replay.players.count, replay.seed, replay.ticks, replay.score, ...replay.runs.flat()];
+  if (values.some(Number.isNaN)) return null;
+
+  const { count } = replay.players;
+  if (count < 1 || count > MAX_PLAYERS) return null;
+
+  // The runs have to cover exactly the recorded ticks
+  const runTicks = replay.runs.reduce((sum, [, ticks]) => sum + ticks, 0);
+  return replay.runs.every(([, ticks]) => ticks > 0) && runTicks === replay.ticks ? replay : null;
+}
+
+/** Snapshot of replay availability and playback, for UI controls. */
+export interface ReplayStatus {
+  // False while the game-over screen is merely offering a replay
+  active: boolean;
+  playing: boolean;
+  speed: number;
+  tick: number;
+  totalTicks: number;
+  tickDuration: number;
+  // Whether playback reproduced the recorded score; null until it finishes
+  verified: boolean | null;
+}
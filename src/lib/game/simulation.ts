@@ -0,0 +1,268 @@
+import { FixedStepClock, type SimulationClock } from './clock';
+import { FIXED_TIMESTEP } from './constants';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  type Difficulty,
+  type DifficultySettings
+} from './difficulty';
+import { World } from './ecs/world';
+import type { SimulationEvent, SimulationListener } from './events';
+import {
+  DEFAULT_POOL_CAPACITY,
+  MAX_PLAYERS,
+  createEntityPools,
+  spawnPlayers,
+  type PlayerEntity,
+  type PoolCapacity
+} from './prefabs';
+import { SeededRandom } from './random';
+import {
+  adaptiveDifficultySystem,
+  createAdaptiveState,
+  type AdaptiveState
+} from './systems/adaptive-difficulty';
+import { behaviorSystem } from './systems/behaviors';
+import { bombSystem } from './systems/bombs';
+import { attachmentSystem, bossSystem } from './systems/bosses';
+import { collisionSystem, createCollisionGrids } from './systems/collisions';
+import type { SimulationContext } from './systems/context';
+import { comboSystem, createComboState, type ComboState } from './systems/combo';
+import { cullingSystem } from './systems/culling';
+import { droneSystem } from './systems/drones';
+import { homingSystem } from './systems/homing';
+import { lifetimeSystem } from './systems/lifetime';
+import { createLootStats } from './systems/loot';
+import { movementSystem, snapshotSystem } from './systems/movement';
+import { speedChangeSystem, volleySystem } from './systems/patterns';
+import { playerControlSystem } from './systems/player-control';
+import {
+  DEFAULT_LIVES_CONFIG,
+  createLivesState,
+  livesSystem,
+  type LivesConfig,
+  type LivesState
+} from './systems/lives';
+import { enemyTimeScale, powerUpSystem } from './systems/power-ups';
+import { createSpawnerState, spawnSystem } from './systems/spawning';
+import { createWaveState, waveSystem, type WaveState } from './systems/waves';
+import { weaponSystem } from './systems/weapons';
+
+export interface GameSimulationOptions {
+  clock?: SimulationClock;
+  seed?: number;
+  poolCapacity?: Partial<PoolCapacity>;
+  lives?: Partial<LivesConfig>;
+  difficulty?: Difficulty;
+  // Adjusts the difficulty to the player's performance as the run goes
+  adaptive?: boolean;
+  players?: PlayerSetup;
+}
+
+/** How many ships are in play, and whether co-op players share their lives. */
+export interface PlayerSetup {
+  count: number;
+  sharedLives: boolean;
+}
+
+export const SINGLE_PLAYER: PlayerSetup = { count: 1, sharedLives: false };
+
+/**
+ * Headless game rules: an entity world stepped by a fixed sequence of
+ * systems. Has no DOM, canvas or audio dependencies, so it runs as-is in
+ * Node for balance testing and replay verification.
+ */
+export class GameSimulation {
+  private clock: SimulationClock;
+  private listeners: Set<SimulationListener> = new Set();
+  private ctx: SimulationContext;
+  private level: Difficulty;
+  private setup: PlayerSetup;
+
+  public readonly world = new World();
+  // In slot order
+  public players: PlayerEntity[];
+
+  constructor(options: GameSimulationOptions = {}) {
+    this.clock = options.clock ?? new FixedStepClock();
+
+    const random = new SeededRandom(options.seed ?? 0);
+    this.level = options.difficulty ?? DEFAULT_DIFFICULTY;
+    this.setup = checkSetup(options.players ?? SINGLE_PLAYER);
+    const difficulty = { ...DIFFICULTIES[this.level] };
+    this.ctx = {
+      world: this.world,
+      pools: createEntityPools(this.world, { ...DEFAULT_POOL_CAPACITY, ...options.poolCapacity }),
+      random,
+      difficulty,
+      adaptive: createAdaptiveState(DIFFICULTIES[this.level], options.adaptive ?? false),
+      stats: {
+        score: 0,
+        wave: 1,
+        enemiesKilled: 0,
+        shotsFired: 0,
+        shotsHit: 0,
+        damageTaken: 0,
+        bombScore: 0,
+        maxCombo: 0,
+        grazes: 0,
+        multiplierHistory: [],
+        loot: createLootStats()
+      },
+      lives: createLivesState({ ...DEFAULT_LIVES_CONFIG, ...options.lives }, this.setup.count, this.setup.sharedLives),
+      combo: createComboState(),
+      spawner: createSpawnerState(difficulty),
+      waves: createWaveState(random),
+      volleys: [],
+      grids: createCollisionGrids(),
+      now: 0,
+      enemyTime: 0,
+      input: 0,
+      emit: event => this.emit(event)
+    };
+    this.players = spawnPlayers(this.ctx, this.setup.count);
+  }
+
+  get seed() {
+    return this.ctx.random.seed;
+  }
+
+  get difficulty(): Difficulty {
+    return this.level;
+  }
+
+  get playerSetup(): Readonly<PlayerSetup> {
+    return this.setup;
+  }
+
+  /** Difficulty values in effect right now, including adaptive adjustments. */
+  get effectiveDifficulty(): Readonly<DifficultySettings> {
+    return this.ctx.difficulty;
+  }
+
+  get adaptive(): Readonly<AdaptiveState> {
+    return this.ctx.adaptive;
+  }
+
+  get stats() {
+    return this.ctx.stats;
+  }
+
+  get lives(): Readonly<LivesState> {
+    return this.ctx.lives;
+  }
+
+  get combo(): Readonly<ComboState> {
+    return this.ctx.combo;
+  }
+
+  get waves(): Readonly<WaveState> {
+    return this.ctx.waves;
+  }
+
+  // Over once every ship is out of lives
+  get isGameOver() {
+    return this.players.every(player => player.playerControl.respawnAt === Infinity);
+  }
+
+  /** Current game time in milliseconds. */
+  now() {
+    return this.clock.now();
+  }
+
+  /** Game time as enemies see it, slowed by time slow. */
+  enemyTime() {
+    return this.ctx.enemyTime;
+  }
+
+  subscribe(listener: SimulationListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SimulationEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  reset(seed: number, difficulty = this.level, adaptive = this.ctx.adaptive.enabled, players = this.setup) {
+    const { ctx } = this;
+    this.level = difficulty;
+    this.setup = checkSetup(players);
+    ctx.difficulty = { ...DIFFICULTIES[difficulty] };
+    ctx.adaptive = createAdaptiveState(DIFFICULTIES[difficulty], adaptive);
+
+    // Clear all entities and respawn the players
+    this.world.clear();
+    this.players = spawnPlayers(ctx, this.setup.count);
+
+    // Reset stats
+    ctx.stats.score = 0;
+    ctx.stats.wave = 1;
+    ctx.stats.enemiesKilled = 0;
+    ctx.stats.shotsFired = 0;
+    ctx.stats.shotsHit = 0;
+    ctx.stats.damageTaken = 0;
+    ctx.stats.bombScore = 0;
+    ctx.stats.maxCombo = 0;
+    ctx.stats.grazes = 0;
+    ctx.stats.multiplierHistory = [];
+    ctx.stats.loot = createLootStats();
+    ctx.lives = createLivesState(ctx.lives.config, this.setup.count, this.setup.sharedLives);
+    ctx.combo = createComboState();
+
+    // Reset timers and reseed so the run is reproducible from its seed
+    ctx.random.reset(seed);
+    this.clock.reset();
+    ctx.enemyTime = 0;
+    ctx.spawner = createSpawnerState(ctx.difficulty);
+    ctx.waves = createWaveState(ctx.random);
+    ctx.volleys = [];
+  }
+
+  // Advances the simulation by one fixed step. Everything in here must be
+  // driven only by the input mask, the seeded PRNG and game time so that
+  // replays reproduce the run exactly.
+  tick(input: number) {
+    const { ctx, world } = this;
+
+    this.clock.advance(FIXED_TIMESTEP);
+    ctx.now = this.clock.now();
+    ctx.input = input;
+    const enemyScale = enemyTimeScale(ctx);
+    ctx.enemyTime += FIXED_TIMESTEP * enemyScale;
+
+    snapshotSystem(world);
+    playerControlSystem(ctx);
+    bombSystem(ctx);
+    powerUpSystem(ctx);
+    droneSystem(ctx);
+    weaponSystem(ctx);
+    volleySystem(ctx);
+    bossSystem(ctx);
+    behaviorSystem(ctx);
+    homingSystem(world);
+    speedChangeSystem(world, ctx.enemyTime, enemyScale);
+    movementSystem(world, enemyScale);
+    attachmentSystem(world);
+    cullingSystem(world);
+    lifetimeSystem(world, FIXED_TIMESTEP);
+    collisionSystem(ctx);
+    livesSystem(ctx);
+    comboSystem(ctx);
+    adaptiveDifficultySystem(ctx);
+    spawnSystem(ctx);
+    waveSystem(ctx);
+
+    // Recycle everything deactivated this tick
+    world.sweep();
+  }
+}
+
+function checkSetup(setup: PlayerSetup): PlayerSetup {
+  if (!Number.isInteger(setup.count) || setup.count < 1 || setup.count > MAX_PLAYERS) {
+    throw new Error(`Unsupported player count: ${setup.count}`);
+  }
+  return { ...setup };
+}
@@ -0,0 +1,159 @@
+import type { DifficultySettings } from '../difficulty';
+import type { SimulationContext } from './context';
+
+// How often performance is measured and the difficulty nudged
+export const ADJUST_INTERVAL = 5000;
+
+// Performance an unchanged difficulty expects over one interval
+const TARGET_KILL_RATE = 0.6; // kills per second
+const TARGET_DAMAGE = 15; // one enemy shot
+
+// How far one interval moves the level, which stays within -1 to 1
+const LEVEL_STEP = 0.15;
+
+// Largest change, at level 1 or -1, to each adjusted value
+const SPAWN_RATE_RANGE = 0.35;
+const FIRE_RATE_RANGE = 0.4;
+// Random power-ups and loot drops alike
+const POWER_UP_CHANCE_RANGE = 0.5;
+
+export interface AdaptiveMetrics {
+  killRate: number; // kills per second
+  damageTaken: number;
+  // Player shots that hit something, out of those fired
+  accuracy: number;
+  // Fraction of max health left
+  health: number;
+  // Combined score from -1 (struggling) to 1 (cruising)
+  performance: number;
+}
+
+export interface DifficultyAdjustment extends AdaptiveMetrics {
+  time: number; // game time
+  level: number;
+  spawnRate: number;
+  fireRate: number;
+  powerUpChance: number;
+  dropRate: number;
+}
+
+export interface AdaptiveState {
+  enabled: boolean;
+  // Preset the adjustments are made relative to
+  base: DifficultySettings;
+  level: number;
+  windowStart: number; // game time
+  // Stats at the start of the current window
+  killsAtStart: number;
+  damageAtStart: number;
+  shotsFiredAtStart: number;
+  shotsHitAtStart: number;
+  // Measured over the last complete window
+  metrics: AdaptiveMetrics;
+  // Every adjustment made this run, for tuning the curve
+  log: DifficultyAdjustment[];
+}
+
+export function createAdaptiveState(base: DifficultySettings, enabled: boolean): AdaptiveState {
+  return {
+    enabled,
+    base,
+    level: 0,
+    windowStart: 0,
+    killsAtStart: 0,
+    damageAtStart: 0,
+    shotsFiredAtStart: 0,
+    shotsHitAtStart: 0,
+    metrics: { killRate: 0, damageTaken: 0, accuracy: 0, health: 1, performance: 0 },
+    log: []
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+function startWindow(ctx: SimulationContext) {
+  const { adaptive, stats } = ctx;
+  adaptive.windowStart = ctx.now;
+  adaptive.killsAtStart = stats.enemiesKilled;
+  adaptive.damageAtStart = stats.damageTaken;
+  adaptive.shotsFiredAtStart = stats.shotsFired;
+  adaptive.shotsHitAtStart = stats.shotsHit;
+}
+
+function measure(ctx: SimulationContext): AdaptiveMetrics {
+  const { adaptive, stats } = ctx;
+
+  const killRate = (stats.enemiesKilled - adaptive.killsAtStart) / (ADJUST_INTERVAL / 1000);
+  const damageTaken = stats.damageTaken - adaptive.damageAtStart;
+  const shotsFired = stats.shotsFired - adaptive.shotsFiredAtStart;
+  const accuracy = shotsFired > 0 ? Math.min(1, (stats.shotsHit - adaptive.shotsHitAtStart) / shotsFired) : 0;
+  let current = 0;
+  let max = 0;
+  // Ships out of lives sit at 0 health and would only drag the average down
+  ctx.pools.players.forEach(({ health, playerControl }) => {
+    if (playerControl.respawnAt === Infinity) return;
+    current += health.current;
+    max += health.max;
+  });
+  const healthLeft = max > 0 ? current / max : 0;
+
+  // Each term is -1 to 1, positive when the player is doing well
+  const performance =
+    clamp(killRate / TARGET_KILL_RATE - 1, -1, 1) * 0.3 +
+    clamp(1 - damageTaken / TARGET_DAMAGE, -1, 1) * 0.3 +
+    clamp(accuracy * 2 - 1, -1, 1) * 0.2 +
+    (healthLeft * 2 - 1) * 0.2;
+
+  return { killRate, damageTaken, accuracy, health: healthLeft, performance };
+}
+
+/**
+ * In adaptive mode, measures the player's kill rate, damage taken,
+ * accuracy and health every `ADJUST_INTERVAL` and nudges the spawn rate,
+ * enemy fire rate, power-up chance and loot drop rate towards keeping them
+ * challenged.
+ * Windows in which a ship was waiting to respawn don't count.
+ */
+export function adaptiveDifficultySystem(ctx: SimulationContext) {
+  const { adaptive } = ctx;
+  if (!adaptive.enabled) return;
+
+  // A co-op partner who is out of lives doesn't hold the others back
+  let down = false;
+  ctx.pools.players.forEach(({ playerControl }) => {
+    down ||= playerControl.respawnAt !== null && playerControl.respawnAt !== Infinity;
+  });
+  if (down) {
+    startWindow(ctx);
+    return;
+  }
+  if (ctx.now - adaptive.windowStart < ADJUST_INTERVAL) return;
+
+  const metrics = measure(ctx);
+  adaptive.metrics = metrics;
+  adaptive.level = clamp(adaptive.level + metrics.performance * LEVEL_STEP, -1, 1);
+  startWindow(ctx);
+
+  const { base, level } = adaptive;
+  ctx.difficulty = {
+    ...base,
+    spawnRate: base.spawnRate * (1 + level * SPAWN_RATE_RANGE),
+    fireRate: base.fireRate * (1 + level * FIRE_RATE_RANGE),
+    powerUpChance: base.powerUpChance * (1 - level * POWER_UP_CHANCE_RANGE),
+    dropRate: base.dropRate * (1 - level * POWER_UP_CHANCE_RANGE)
+  };
+
+  const adjustment: DifficultyAdjustment = {
+    time: ctx.now,
+    level,
+    ...metrics,
+    spawnRate: ctx.difficulty.spawnRate,
+    fireRate: ctx.difficulty.fireRate,
+    powerUpChance: ctx.difficulty.powerUpChance,
+    dropRate: ctx.difficulty.dropRate
+  };
+  adaptive.log.push(adjustment);
+  ctx.emit({ type: 'difficultyAdjusted', adjustment });
+}
@@ -0,0 +1,166 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import type { With } from '../ecs/world';
+import { evaluatePath } from '../movement-behaviors';
+import type { Vector2D } from '../types';
+import type { SimulationContext } from './context';
+import { nearestPlayer } from './targeting';
+
+type Mover = With<'transform' | 'velocity' | 'movement'>;
+
+// Moves the entity's center onto (x, y) over the coming tick
+function steerTo(entity: Mover, x: number, y: number) {
+  const { transform, velocity } = entity;
+  velocity.x = x - transform.width / 2 - transform.x;
+  velocity.y = y - transform.height / 2 - transform.y;
+}
+
+// Heads for the entity's center to reach (x, y), no faster than `speed`
+function chase(entity: Mover, x: number, y: number, speed: number) {
+  steerTo(entity, x, y);
+  const { velocity } = entity;
+  const distance = Math.hypot(velocity.x, velocity.y);
+  if (distance > speed) {
+    velocity.x *= speed / distance;
+    velocity.y *= speed / distance;
+  }
+}
+
+// Commits to a fixed velocity; later stages leave it untouched
+function setHeading(entity: Mover, x: number, y: number) {
+  entity.velocity.x = x;
+  entity.velocity.y = y;
+}
+
+function nextStage(entity: Mover, now: number) {
+  entity.movement.stage++;
+  entity.movement.stageStart = now;
+}
+
+function centerOf(entity: With<'transform'>): Vector2D {
+  const { x, y, width, height } = entity.transform;
+  return { x: x + width / 2, y: y + height / 2 };
+}
+
+// Triangle wave in [-1, 1] with the same phase as Math.sin
+function triangle(phase: number) {
+  const t = ((phase / (Math.PI * 2)) % 1 + 1) % 1;
+  return t < 0.25 ? t * 4 : t < 0.75 ? 2 - t * 4 : t * 4 - 4;
+}
+
+/** Sets each enemy's velocity for this tick from its movement behavior. */
+export function behaviorSystem(ctx: SimulationContext) {
+  // Behaviors run on enemy time, so time slow stretches every stage and path
+  const now = ctx.enemyTime;
+
+  ctx.world.each(['transform', 'velocity', 'movement'], entity => {
+    const { movement } = entity;
+    const { behavior, speed, originX, originY } = movement;
+    const elapsed = now - movement.stageStart;
+    const center = centerOf(entity);
+
+    switch (behavior.type) {
+      case 'straight': {
+        const heading = (behavior.angle * Math.PI) / 180;
+        entity.velocity.x = Math.sin(heading) * speed;
+        entity.velocity.y = Math.cos(heading) * speed;
+        break;
+      }
+
+      case 'sine':
+      case 'zigzag': {
+        const phase = (elapsed / behavior.period) * Math.PI * 2;
+        const wave = behavior.type === 'sine' ? Math.sin(phase) : triangle(phase);
+        steerTo(entity, originX + wave * behavior.amplitude, center.y + speed);
+        break;
+      }
+
+      case 'dive':
+        if (movement.stage === 0) {
+          entity.velocity.x = 0;
+          entity.velocity.y = speed;
+          if (center.y < behavior.triggerY * CANVAS_HEIGHT) break;
+
+          // Lock on to where the player is now; the charge doesn't track
+          const player = nearestPlayer(ctx.world, center.x, center.y);
+          const target = player ? centerOf(player) : { x: center.x, y: CANVAS_HEIGHT };
+          const dx = target.x - center.x;
+          const dy = target.y - center.y;
+          const length = Math.hypot(dx, dy) || 1;
+          const diveSpeed = speed * behavior.speedMultiplier;
+          setHeading(entity, (dx / length) * diveSpeed, (dy / length) * diveSpeed);
+          nextStage(entity, now);
+        }
+        break;
+
+      case 'formation': {
+        const slotY = behavior.holdY * CANVAS_HEIGHT;
+        if (movement.stage === 0) {
+          // Fly into the slot, no faster than the archetype's speed
+          const distance = slotY - center.y;
+          steerTo(entity, originX, center.y + Math.max(-speed, Math.min(speed, distance)));
+          if (Math.abs(distance) <= speed) nextStage(entity, now);
+        } else if (movement.stage === 1) {
+          // Sway gently in the slot until it's time to break off
+          steerTo(entity, originX + Math.sin(elapsed / 400) * 8, slotY);
+          if (elapsed >= behavior.holdTime) {
+            const side = behavior.peel === 'left' ? -1 : behavior.peel === 'right' ? 1 : 0;
+            setHeading(entity, side * speed * 1.5, speed * (side === 0 ? 1.5 : 0.75));
+            nextStage(entity, now);
+          }
+        }
+        break;
+      }
+
+      case 'orbit': {
+        const centerY = behavior.centerY * CANVAS_HEIGHT;
+        if (movement.stage === 0) {
+          // Descend to the top of the circle
+          entity.velocity.x = 0;
+          entity.velocity.y = speed;
+          if (center.y >= centerY - behavior.radius) nextStage(entity, now);
+        } else if (movement.stage === 1) {
+          const angle = (elapsed / behavior.period) * Math.PI * 2;
+          steerTo(
+            entity,
+            originX + Math.sin(angle) * behavior.radius,
+            centerY - Math.cos(angle) * behavior.radius
+          );
+          if (elapsed >= behavior.loops * behavior.period) {
+            setHeading(entity, 0, speed);
+            nextStage(entity, now);
+          }
+        }
+        break;
+      }
+
+      case 'hover': {
+        const phase = (elapsed / behavior.period) * Math.PI * 2;
+        chase(
+          entity,
+          originX + Math.sin(phase) * behavior.amplitudeX,
+          originY + Math.sin(phase * 2) * behavior.amplitudeY,
+          speed
+        );
+        break;
+      }
+
+      case 'bezier':
+      case 'spline': {
+        if (movement.stage > 0) break;
+
+        // Paths are translated so they start wherever the enemy spawned;
+        // after the end the enemy keeps its last velocity and flies off
+        const t = elapsed / behavior.duration;
+        const start = evaluatePath(behavior, 0);
+        const point = evaluatePath(behavior, t);
+        steerTo(
+          entity,
+          originX + (point.x - start.x) * CANVAS_WIDTH,
+          originY + (point.y - start.y) * CANVAS_HEIGHT
+        );
+        if (t >= 1) nextStage(entity, now);
+        break;
+      }
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import type { Transform } from '../ecs/components';
+import type { With } from '../ecs/world';
+import { InputFlag, playerInput } from '../input';
+import { damageEnemy } from './collisions';
+import type { SimulationContext } from './context';
+
+const BOMB_DAMAGE = 50;
+// Covers the flash, so the player isn't hit by something the bomb missed
+const BOMB_INVULNERABILITY = 2000;
+
+function isOnScreen({ x, y, width, height }: Transform) {
+  return x + width > 0 && x < CANVAS_WIDTH && y + height > 0 && y < CANVAS_HEIGHT;
+}
+
+function detonate(ctx: SimulationContext, player: With<'transform' | 'health' | 'playerControl'>) {
+  const { stats, now } = ctx;
+  player.health.invulnerableUntil = Math.max(player.health.invulnerableUntil, now + BOMB_INVULNERABILITY);
+
+  // Cancel every enemy bullet, including parts of patterns still to come
+  ctx.world.each(['collider'], entity => {
+    if (entity.collider.layer === 'enemyShot') entity.active = false;
+  });
+  ctx.volleys = [];
+
+  const scoreBefore = stats.score;
+  ctx.world.each(['transform', 'collider', 'health'], enemy => {
+    if (enemy.collider.layer === 'enemy' && isOnScreen(enemy.transform)) {
+      damageEnemy(ctx, enemy, BOMB_DAMAGE, player.playerControl.slot);
+    }
+  });
+  stats.bombScore += stats.score - scoreBefore;
+
+  const { transform } = player;
+  ctx.emit({
+    type: 'bombDetonated',
+    slot: player.playerControl.slot,
+    x: transform.x + transform.width / 2,
+    y: transform.y + transform.height / 2
+  });
+}
+
+/** Sets off a bomb for each player who just pressed the bomb button and has one left. */
+export function bombSystem(ctx: SimulationContext) {
+  ctx.world.each(['transform', 'health', 'playerControl'], player => {
+    const control = player.playerControl;
+    const pressed = (playerInput(ctx.input, control.slot) & InputFlag.BOMB) !== 0;
+    const triggered = pressed && !control.bombHeld;
+    control.bombHeld = pressed;
+
+    if (triggered && control.bombs > 0 && control.respawnAt === null) {
+      control.bombs--;
+      detonate(ctx, player);
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { getBossDefinition } from '../boss-catalog';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import type { With, World } from '../ecs/world';
+import type { SimulationContext } from './context';
+
+type Boss = With<'boss' | 'transform' | 'movement' | 'health' | 'weapon' | 'sprite'>;
+
+// Invulnerability after a phase change, so one volley can't skip a phase
+const PHASE_TRANSITION_GRACE = 1000;
+
+function startPhase(ctx: SimulationContext, boss: Boss, index: number) {
+  const definition = getBossDefinition(boss.boss.type);
+  const phase = definition.phases[index];
+  const { transform, movement, weapon } = boss;
+
+  boss.boss.phase = index;
+
+  // Every phase moves around the spot the boss flew in to
+  movement.behavior = phase.movement;
+  movement.speed = definition.speed;
+  movement.originX = CANVAS_WIDTH / 2;
+  movement.originY = definition.intro.y * CANVAS_HEIGHT;
+  movement.stage = 0;
+  movement.stageStart = ctx.enemyTime;
+
+  weapon.cooldown = phase.weapon.cooldown;
+  weapon.damage = phase.weapon.damage;
+  weapon.projectileSpeed = phase.weapon.projectileSpeed;
+  weapon.pattern = phase.weapon.pattern;
+  boss.sprite.color = phase.color ?? definition.appearance.color;
+
+  if (index > 0) {
+    boss.health.invulnerableUntil = ctx.enemyTime + PHASE_TRANSITION_GRACE;
+    weapon.lastShot = ctx.enemyTime;
+    ctx.emit({
+      type: 'bossPhaseChanged',
+      phase: index,
+      x: transform.x + transform.width / 2,
+      y: transform.y + transform.height / 2
+    });
+  }
+}
+
+/**
+ * Ends boss intros and moves bosses on to their next phase once their
+ * health drops to its threshold.
+ */
+export function bossSystem(ctx: SimulationContext) {
+  ctx.world.each(['boss', 'transform', 'movement', 'health', 'weapon', 'sprite'], boss => {
+    if (boss.boss.phase < 0) {
+      if (ctx.enemyTime >= boss.boss.introUntil) startPhase(ctx, boss, 0);
+      return;
+    }
+
+    const { phases } = getBossDefinition(boss.boss.type);
+    const next = boss.boss.phase + 1;
+    if (next < phases.length && boss.health.current <= boss.health.max * phases[next].threshold) {
+      startPhase(ctx, boss, next);
+    }
+  });
+}
+
+/** Moves attached entities along with their parent, removing orphans. */
+export function attachmentSystem(world: World) {
+  world.each(['transform', 'attachment'], entity => {
+    const { attachment, transform } = entity;
+    const { parent } = attachment;
+    if (!parent || !parent.active || parent.id !== attachment.parentId) {
+      entity.active = false;
+      return;
+    }
+
+    transform.x = parent.transform.x + attachment.offsetX;
+    transform.y = parent.transform.y + attachment.offsetY;
+  });
+}
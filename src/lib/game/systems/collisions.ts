@@ -0,0 +1,218 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, COLLISION_CELL_SIZE } from '../constants';
+import type { Health } from '../ecs/components';
+import type { With } from '../ecs/world';
+import { UniformGrid, centeredBounds } from '../uniform-grid';
+import type { SimulationContext } from './context';
+import { breakCombo, registerKill } from './combo';
+import { destroyDrone } from './drones';
+import { grazeShots } from './grazing';
+import { HIT_INVULNERABILITY } from './lives';
+import { dropLoot } from './loot';
+import { collectPowerUp, hasActivePowerUp, scoreBonus } from './power-ups';
+
+type Collidable = With<'transform' | 'collider'>;
+
+export interface CollisionGrids {
+  enemies: UniformGrid<Collidable>;
+  enemyShots: UniformGrid<Collidable>;
+  pickups: UniformGrid<Collidable>;
+}
+
+export function createCollisionGrids(): CollisionGrids {
+  const grid = () => new UniformGrid<Collidable>(
+    COLLISION_CELL_SIZE,
+    CANVAS_WIDTH,
+    CANVAS_HEIGHT,
+    entity => entity.transform
+  );
+  return { enemies: grid(), enemyShots: grid(), pickups: grid() };
+}
+
+function center(entity: With<'transform'>) {
+  const { x, y, width, height } = entity.transform;
+  return { x: x + width / 2, y: y + height / 2 };
+}
+
+function isInvulnerable(health: Health, now: number) {
+  return now < health.invulnerableUntil;
+}
+
+function damagePlayer(ctx: SimulationContext, player: With<'health'>, damage: number) {
+  const scaled = Math.round(damage * ctx.difficulty.damage);
+  ctx.stats.damageTaken += Math.min(scaled, player.health.current);
+  player.health.current = Math.max(0, player.health.current - scaled);
+  player.health.invulnerableUntil = ctx.now + HIT_INVULNERABILITY;
+  breakCombo(ctx);
+}
+
+// Applies at most one hit per tick; the grace period that follows covers
+// anything else still overlapping the player's hitbox
+function hitPlayer(ctx: SimulationContext, player: With<'transform' | 'health' | 'hitbox' | 'playerControl'>) {
+  const { slot } = player.playerControl;
+  const { grids } = ctx;
+  const hitbox = centeredBounds(player.transform, player.hitbox.width, player.hitbox.height);
+
+  // Enemy shots vs player
+  for (const shot of grids.enemyShots.query(hitbox)) {
+    if (!shot.active) continue;
+
+    shot.active = false;
+    damagePlayer(ctx, player, shot.collider.damage);
+    ctx.emit({ type: 'playerHit', slot, ...center(player) });
+    return;
+  }
+
+  // Player vs enemies (collision damage)
+  for (const enemy of grids.enemies.query(hitbox)) {
+    if (!enemy.active) continue;
+
+    damagePlayer(ctx, player, enemy.collider.damage);
+    ctx.emit({ type: 'playerRammed', slot, ...center(enemy) });
+    if (!enemy.collider.persistent) {
+      enemy.active = false;
+    }
+    return;
+  }
+}
+
+// Adds kill points to the run's score and to the score of the player who
+// made the kill, if any
+function awardPoints(ctx: SimulationContext, shooter: number, points: number) {
+  ctx.stats.score += points;
+  ctx.pools.players.forEach(({ active, playerControl }) => {
+    if (active && playerControl.slot === shooter) playerControl.score += points;
+  });
+}
+
+// Scores a kill; destroying a weak point also damages what it's attached to
+function destroyEnemy(ctx: SimulationContext, enemy: With<'transform'>, shooter: number) {
+  enemy.active = false;
+  awardPoints(ctx, shooter, (enemy.scoreValue?.points ?? 0) * registerKill(ctx) * scoreBonus(ctx));
+  ctx.stats.enemiesKilled++;
+  ctx.emit({ type: 'enemyDestroyed', ...center(enemy) });
+  if (enemy.boss) {
+    ctx.emit({ type: 'bossDefeated', ...center(enemy) });
+  }
+  dropLoot(ctx, enemy);
+
+  const { attachment } = enemy;
+  const parent = attachment?.parent;
+  if (!attachment || !parent?.health || !parent.active || parent.id !== attachment.parentId) return;
+
+  parent.health.current -= attachment.linkDamage;
+  ctx.emit({ type: 'enemyHit', ...center(parent) });
+  if (parent.health.current <= 0) {
+    destroyEnemy(ctx, parent, shooter);
+  }
+}
+
+/**
+ * Damages an enemy unless it is invulnerable, destroying it once its health
+ * runs out. The kill is credited to the player in slot `shooter`.
+ */
+export function damageEnemy(ctx: SimulationContext, enemy: With<'transform'>, damage: number, shooter: number) {
+  const { health } = enemy;
+  if (!health || isInvulnerable(health, ctx.enemyTime)) return;
+
+  health.current -= damage;
+  ctx.emit({ type: 'enemyHit', ...center(enemy) });
+
+  if (health.current <= 0) {
+    destroyEnemy(ctx, enemy, shooter);
+  }
+}
+
+// Rebuilds the broadphase grids from this tick's positions. Every
+// collision pair below goes through one of these instead of testing
+// each entity against every other.
+function buildCollisionGrids(ctx: SimulationContext) {
+  const { grids } = ctx;
+  grids.enemies.clear();
+  grids.enemyShots.clear();
+  grids.pickups.clear();
+
+  ctx.world.each(['transform', 'collider'], entity => {
+    switch (entity.collider.layer) {
+      case 'enemy':
+        grids.enemies.insert(entity);
+        break;
+      case 'enemyShot':
+        grids.enemyShots.insert(entity);
+        break;
+      case 'pickup':
+        grids.pickups.insert(entity);
+        break;
+    }
+  });
+}
+
+export function collisionSystem(ctx: SimulationContext) {
+  const { grids } = ctx;
+  buildCollisionGrids(ctx);
+
+  // Player shots vs enemies
+  ctx.world.each(['transform', 'collider'], shot => {
+    if (shot.collider.layer !== 'playerShot') return;
+
+    const { piercing } = shot;
+    for (const enemy of grids.enemies.query(shot.transform)) {
+      if (!enemy.active || !enemy.health || piercing?.hits.includes(enemy.id)) continue;
+
+      // A shot counts as a hit once, however many enemies it passes through
+      if (!piercing || piercing.hits.length === 0) {
+        ctx.stats.shotsHit++;
+      }
+
+      // Invulnerable enemies take no damage but still count as a hit
+      damageEnemy(ctx, enemy, shot.collider.damage, shot.shooter ?? -1);
+
+      // Piercing shots carry on until they run out of targets
+      if (piercing && piercing.remaining > 0) {
+        piercing.remaining--;
+        piercing.hits.push(enemy.id);
+        continue;
+      }
+      shot.active = false;
+      break;
+    }
+  });
+
+  ctx.world.each(['transform', 'collider', 'health', 'weapon', 'playerControl', 'hitbox', 'graze'], player => {
+    // Destroyed ships are out of play until they respawn
+    if (player.playerControl.respawnAt !== null) return;
+
+    // Check shield power-up
+    const hasShield = hasActivePowerUp(player.playerControl.powerUps, 'shield', ctx.now);
+    const vulnerable = !hasShield && !isInvulnerable(player.health, ctx.now);
+
+    if (vulnerable) {
+      hitPlayer(ctx, player);
+    }
+
+    // Shots near the ship that miss it. Runs after hits, so a shot that hit
+    // is already inactive and a hit this tick stops new shots being tracked
+    grazeShots(ctx, player, vulnerable && !isInvulnerable(player.health, ctx.now));
+
+    // Player vs power-ups
+    for (const pickup of grids.pickups.query(player.transform)) {
+      if (!pickup.active || !pickup.pickup) continue;
+
+      pickup.active = false;
+      collectPowerUp(ctx, player, pickup.pickup);
+      ctx.emit({ type: 'powerUpCollected', powerUp: pickup.pickup.type });
+    }
+  });
+
+  // Enemy shots vs drones, which have no health and go down to one shot
+  ctx.pools.drones.forEach(drone => {
+    if (!drone.active) return;
+
+    for (const shot of grids.enemyShots.query(drone.transform)) {
+      if (!shot.active) continue;
+
+      shot.active = false;
+      destroyDrone(ctx, drone);
+      break;
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import type { SimulationContext } from './context';
+
+// Kills must follow each other within this many ms to extend the combo
+export const COMBO_WINDOW = 2000;
+
+// The multiplier steps up every this many kills in a combo, up to the cap
+const KILLS_PER_STEP = 5;
+const MAX_MULTIPLIER = 8;
+
+export interface ComboState {
+  count: number;
+  multiplier: number;
+  expiresAt: number; // game time
+}
+
+export function createComboState(): ComboState {
+  return { count: 0, multiplier: 1, expiresAt: 0 };
+}
+
+function setMultiplier(ctx: SimulationContext, multiplier: number) {
+  if (multiplier === ctx.combo.multiplier) return;
+
+  ctx.combo.multiplier = multiplier;
+  ctx.stats.multiplierHistory.push({ time: ctx.now, multiplier });
+}
+
+/** Counts a kill towards the combo and returns the multiplier to score it with. */
+export function registerKill(ctx: SimulationContext) {
+  const { combo, stats } = ctx;
+
+  combo.count++;
+  combo.expiresAt = ctx.now + COMBO_WINDOW;
+  stats.maxCombo = Math.max(stats.maxCombo, combo.count);
+  setMultiplier(ctx, Math.min(MAX_MULTIPLIER, 1 + Math.floor(combo.count / KILLS_PER_STEP)));
+  return combo.multiplier;
+}
+
+export function breakCombo(ctx: SimulationContext) {
+  ctx.combo.count = 0;
+  setMultiplier(ctx, 1);
+}
+
+/** Ends the combo once the window since the last kill has passed. */
+export function comboSystem(ctx: SimulationContext) {
+  if (ctx.combo.count > 0 && ctx.now >= ctx.combo.expiresAt) {
+    breakCombo(ctx);
+  }
+}
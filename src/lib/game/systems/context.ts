@@ -0,0 +1,43 @@
+import type { DifficultySettings } from '../difficulty';
+import type { World } from '../ecs/world';
+import type { SimulationEvent } from '../events';
+import type { EntityPools } from '../prefabs';
+import type { SeededRandom } from '../random';
+import type { GameStats } from '../types';
+import type { AdaptiveState } from './adaptive-difficulty';
+import type { CollisionGrids } from './collisions';
+import type { ComboState } from './combo';
+import type { LivesState } from './lives';
+import type { ScheduledVolley } from './patterns';
+import type { SpawnerState } from './spawning';
+import type { WaveState } from './waves';
+
+/**
+ * Shared state handed to every simulation system. Systems are plain
+ * functions; anything that must survive between ticks lives here (or on
+ * entities) so that `GameSimulation.reset` can restore it in one place.
+ */
+export interface SimulationContext {
+  world: World;
+  pools: EntityPools;
+  random: SeededRandom;
+  // Preset values, adjusted as the run goes in adaptive mode
+  difficulty: DifficultySettings;
+  adaptive: AdaptiveState;
+  stats: GameStats;
+  lives: LivesState;
+  combo: ComboState;
+  spawner: SpawnerState;
+  waves: WaveState;
+  // Delayed parts of bullet patterns, in the order they were scheduled
+  volleys: ScheduledVolley[];
+  grids: CollisionGrids;
+  // Game time of the current tick
+  now: number;
+  // Game time as enemies see it, which runs slower under time slow. Timers
+  // on enemies, bosses and their shots and volleys count in it.
+  enemyTime: number;
+  // Input mask for the current tick, see `InputFlag` and `playerInput`
+  input: number;
+  emit: (event: SimulationEvent) => void;
+}
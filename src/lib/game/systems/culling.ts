@@ -0,0 +1,24 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import type { World } from '../ecs/world';
+
+/** Deactivates entities that have left the playfield. */
+export function cullingSystem(world: World) {
+  world.each(['transform', 'culling'], entity => {
+    const { x, y, width, height } = entity.transform;
+    const below = y > CANVAS_HEIGHT + height;
+    const left = x < -width;
+    const right = x > CANVAS_WIDTH + width;
+
+    let culled: boolean;
+    if (entity.culling === 'outside') {
+      culled = below || left || right || y < -height;
+    } else {
+      const vx = entity.velocity?.x ?? 0;
+      culled = below || (left && vx < 0) || (right && vx > 0);
+    }
+
+    if (culled) {
+      entity.active = false;
+    }
+  });
+}
@@ -0,0 +1,130 @@
+import { POWER_UP_ARCHETYPES } from '../archetypes';
+import type { DroneFormation } from '../ecs/components';
+import { InputFlag, playerInput } from '../input';
+import { spawnDrone, type DroneEntity, type PlayerEntity } from '../prefabs';
+import type { SimulationContext } from './context';
+import { powerUpStacks } from './power-ups';
+
+// In the order the formation button cycles through them
+export const DRONE_FORMATIONS: DroneFormation[] = ['spread', 'snake', 'orbit', 'front'];
+
+// Spread drone centers relative to the ship's top left corner, filled in
+// order: alternating sides, each pair further out and lower than the last
+const SPREAD_SLOTS: Array<[number, number]> = [
+  [-22, 28],
+  [72, 28],
+  [-48, 48],
+  [98, 48]
+];
+
+// Snake drones are this many recorded ship positions apart
+const TRAIL_SPACING = 10;
+const TRAIL_LENGTH = POWER_UP_ARCHETYPES.drone.maxStacks * TRAIL_SPACING + 1;
+
+const ORBIT_RADIUS = 50;
+const ORBIT_PERIOD = 2000; // ms per turn
+
+// Front drones sit in a row this far above the ship's top edge
+const FRONT_HEIGHT = 20;
+const FRONT_SPACING = 22;
+
+/**
+ * Keeps each ship's option drones in step with its drone power-up:
+ * spawning drones up to the stack count, removing any beyond it, placing
+ * them in the ship's formation and firing them whenever the ship fires.
+ */
+export function droneSystem(ctx: SimulationContext) {
+  ctx.pools.players.forEach(player => {
+    const { playerControl, wing } = player;
+
+    const pressed = (playerInput(ctx.input, playerControl.slot) & InputFlag.FORMATION) !== 0;
+    if (pressed && !wing.switchHeld) {
+      wing.formation = DRONE_FORMATIONS[(DRONE_FORMATIONS.indexOf(wing.formation) + 1) % DRONE_FORMATIONS.length];
+    }
+    wing.switchHeld = pressed;
+    recordTrail(player);
+
+    const wanted = powerUpStacks(playerControl.powerUps, 'drone', ctx.now);
+
+    const drones: DroneEntity[] = [];
+    ctx.pools.drones.forEach(drone => {
+      if (drone.active && drone.attachment.parent === player) drones.push(drone);
+    });
+
+    drones.forEach((drone, i) => {
+      if (i >= wanted) {
+        drone.active = false;
+        return;
+      }
+      arrange(ctx, player, drone, i, wanted);
+    });
+
+    for (let i = drones.length; i < wanted; i++) {
+      const drone = spawnDrone(ctx, player);
+      if (!drone) break;
+      arrange(ctx, player, drone, i, wanted);
+    }
+  });
+}
+
+/** Destroys a drone, taking away the drone stack it came from. */
+export function destroyDrone(ctx: SimulationContext, drone: DroneEntity) {
+  drone.active = false;
+
+  const playerControl = drone.attachment.parent?.playerControl;
+  const effect = playerControl?.powerUps.find(powerUp => powerUp.type === 'drone');
+  if (playerControl && effect && --effect.stacks <= 0) {
+    playerControl.powerUps = playerControl.powerUps.filter(powerUp => powerUp !== effect);
+  }
+
+  const { transform } = drone;
+  ctx.emit({
+    type: 'droneDestroyed',
+    x: transform.x + transform.width / 2,
+    y: transform.y + transform.height / 2
+  });
+}
+
+// Remembers the ship's center whenever it moves, so snake drones follow
+// its path and bunch up behind it when it stops
+function recordTrail({ transform, wing }: PlayerEntity) {
+  const x = transform.x + transform.width / 2;
+  const y = transform.y + transform.height / 2;
+  const [last] = wing.trail;
+  if (last && last[0] === x && last[1] === y) return;
+
+  wing.trail.unshift([x, y]);
+  if (wing.trail.length > TRAIL_LENGTH) wing.trail.length = TRAIL_LENGTH;
+}
+
+// Center of drone `slot` of `count`, relative to the ship's top left corner
+function slotCenter(ctx: SimulationContext, player: PlayerEntity, slot: number, count: number): [number, number] {
+  const { transform, wing } = player;
+  const centerX = transform.width / 2;
+  const centerY = transform.height / 2;
+
+  switch (wing.formation) {
+    case 'spread':
+      return SPREAD_SLOTS[slot % SPREAD_SLOTS.length];
+
+    case 'snake': {
+      const point = wing.trail[Math.min((slot + 1) * TRAIL_SPACING, wing.trail.length - 1)];
+      return point ? [point[0] - transform.x, point[1] - transform.y] : [centerX, centerY];
+    }
+
+    case 'orbit': {
+      const angle = (ctx.now / ORBIT_PERIOD + slot / count) * Math.PI * 2;
+      return [centerX + Math.cos(angle) * ORBIT_RADIUS, centerY + Math.sin(angle) * ORBIT_RADIUS];
+    }
+
+    case 'front':
+      return [centerX + (slot - (count - 1) / 2) * FRONT_SPACING, -FRONT_HEIGHT];
+  }
+}
+
+function arrange(ctx: SimulationContext, player: PlayerEntity, drone: DroneEntity, slot: number, count: number) {
+  const [x, y] = slotCenter(ctx, player, slot, count);
+  drone.attachment.offsetX = x - drone.transform.width / 2;
+  drone.attachment.offsetY = y - drone.transform.height / 2;
+  drone.weapon.trigger = player.weapon.trigger;
+}
@@ -0,0 +1,66 @@
+import type { Graze } from '../ecs/components';
+import type { With } from '../ecs/world';
+import { centeredBounds } from '../uniform-grid';
+import type { SimulationContext } from './context';
+
+export const GRAZE_POINTS = 10;
+
+// Grazes that fill the meter and start an overdrive
+export const GRAZE_METER_MAX = 25;
+
+// An overdrive doubles the player's rate of fire for this long
+export const OVERDRIVE_DURATION = 6000;
+
+export function isOverdriven(graze: Graze, now: number) {
+  return now < graze.overdriveUntil;
+}
+
+function scoreGraze(ctx: SimulationContext, player: With<'graze' | 'playerControl'>, shot: With<'transform'>) {
+  const { graze } = player;
+  const { transform } = shot;
+  ctx.stats.score += GRAZE_POINTS;
+  player.playerControl.score += GRAZE_POINTS;
+  ctx.stats.grazes++;
+  graze.count++;
+  ctx.emit({ type: 'graze', x: transform.x + transform.width / 2, y: transform.y + transform.height / 2 });
+
+  // The meter stays empty while an overdrive runs
+  if (isOverdriven(graze, ctx.now)) return;
+
+  graze.meter++;
+  if (graze.meter >= GRAZE_METER_MAX) {
+    graze.meter = 0;
+    graze.overdriveUntil = ctx.now + OVERDRIVE_DURATION;
+    ctx.emit({ type: 'overdriveStarted' });
+  }
+}
+
+/**
+ * Tracks enemy shots passing through the player's graze zone. A shot
+ * scores once it leaves the zone still active; shots that hit the player
+ * are deactivated by then. Only shots entering while the player can be
+ * hit are tracked, so invulnerability can't be farmed for grazes.
+ */
+export function grazeShots(
+  ctx: SimulationContext,
+  player: With<'transform' | 'graze' | 'playerControl'>,
+  vulnerable: boolean
+) {
+  const { graze } = player;
+  const inside = ctx.grids.enemyShots.query(centeredBounds(player.transform, graze.width, graze.height));
+
+  graze.shots = graze.shots.filter(({ shot, shotId }) => {
+    if (!shot.active || shot.id !== shotId) return false;
+    if (inside.includes(shot)) return true;
+
+    scoreGraze(ctx, player, shot);
+    return false;
+  });
+
+  if (!vulnerable) return;
+  for (const shot of inside) {
+    if (shot.active && !graze.shots.some(grazing => grazing.shot === shot)) {
+      graze.shots.push({ shot, shotId: shot.id });
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type { World } from '../ecs/world';
+import { nearestEnemy } from './targeting';
+
+/** Turns homing projectiles towards the nearest enemy, keeping their speed. */
+export function homingSystem(world: World) {
+  world.each(['transform', 'velocity', 'homing'], projectile => {
+    const { transform, velocity, homing } = projectile;
+    if (homing.turnRate === 0) return;
+
+    const x = transform.x + transform.width / 2;
+    const y = transform.y + transform.height / 2;
+    const target = nearestEnemy(world, x, y);
+    if (!target) return;
+
+    const heading = Math.atan2(velocity.y, velocity.x);
+    const desired = Math.atan2(
+      target.transform.y + target.transform.height / 2 - y,
+      target.transform.x + target.transform.width / 2 - x
+    );
+    // Shortest way round, limited to the turn rate
+    const difference = Math.atan2(Math.sin(desired - heading), Math.cos(desired - heading));
+    const maxTurn = (homing.turnRate * Math.PI) / 180;
+    const turned = heading + Math.max(-maxTurn, Math.min(maxTurn, difference));
+
+    const speed = Math.hypot(velocity.x, velocity.y);
+    velocity.x = Math.cos(turned) * speed;
+    velocity.y = Math.sin(turned) * speed;
+  });
+}
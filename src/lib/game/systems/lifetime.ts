@@ -0,0 +1,11 @@
+import type { World } from '../ecs/world';
+
+/** Counts down `Lifetime` components and deactivates expired entities. */
+export function lifetimeSystem(world: World, elapsed: number) {
+  world.each(['lifetime'], entity => {
+    entity.lifetime.remaining -= elapsed;
+    if (entity.lifetime.remaining <= 0) {
+      entity.active = false;
+    }
+  });
+}
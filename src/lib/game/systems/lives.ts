@@ -0,0 +1,142 @@
+import { FIXED_TIMESTEP } from '../constants';
+import { STARTING_BOMBS, equipWeapon, restorePlayer, type PlayerEntity } from '../prefabs';
+import type { SimulationContext } from './context';
+
+// Grace period after taking a hit, so overlapping bullets count once
+export const HIT_INVULNERABILITY = 1000;
+
+// How long a destroyed ship stays gone before it respawns
+const RESPAWN_DELAY = 1500;
+const RESPAWN_INVULNERABILITY = 3000;
+
+// In co-op, a partner who stays this close to a ship that is out of lives
+// for this long brings it back with a life
+export const REVIVE_RANGE = 60;
+export const REVIVE_TIME = 3000;
+
+export interface LivesConfig {
+  starting: number;
+  // Scores that award an extra life, in ascending order
+  extraLifeAt: number[];
+  // After the last threshold, another life every this many points; 0 for none
+  extraLifeEvery: number;
+}
+
+export const DEFAULT_LIVES_CONFIG: LivesConfig = {
+  starting: 3,
+  extraLifeAt: [5000, 15000],
+  extraLifeEvery: 20000
+};
+
+export interface LivesState {
+  config: LivesConfig;
+  // Whether co-op players draw on one pool of lives
+  shared: boolean;
+  // Ships left per player, including the one in play, or a single entry
+  // for the whole team when lives are shared
+  remaining: number[];
+  extraLivesAwarded: number;
+}
+
+export function createLivesState(config: LivesConfig, players = 1, shared = false): LivesState {
+  return {
+    config,
+    shared,
+    remaining: shared ? [config.starting * players] : Array.from({ length: players }, () => config.starting),
+    extraLivesAwarded: 0
+  };
+}
+
+/** Index into `remaining` of the lives the player in `slot` uses. */
+export function lifePool(lives: LivesState, slot: number) {
+  return lives.shared ? 0 : slot;
+}
+
+// Score needed for extra life number `index` (0-based)
+function extraLifeThreshold(config: LivesConfig, index: number) {
+  const { extraLifeAt, extraLifeEvery } = config;
+  if (index < extraLifeAt.length) return extraLifeAt[index];
+  if (extraLifeEvery <= 0) return Infinity;
+
+  const last = extraLifeAt[extraLifeAt.length - 1] ?? 0;
+  return last + (index - extraLifeAt.length + 1) * extraLifeEvery;
+}
+
+// Fills in a partner's revive while any ship in play is close enough,
+// and starts it over once none is
+function updateRevive(ctx: SimulationContext, player: PlayerEntity) {
+  const { playerControl, transform } = player;
+  let partnerNear = false;
+  ctx.pools.players.forEach(partner => {
+    if (partner === player || !partner.active || partner.playerControl.respawnAt !== null) return;
+
+    const dx = (partner.transform.x + partner.transform.width / 2) - (transform.x + transform.width / 2);
+    const dy = (partner.transform.y + partner.transform.height / 2) - (transform.y + transform.height / 2);
+    partnerNear ||= Math.hypot(dx, dy) <= REVIVE_RANGE;
+  });
+
+  playerControl.reviveProgress = partnerNear ? playerControl.reviveProgress + FIXED_TIMESTEP : 0;
+  if (playerControl.reviveProgress < REVIVE_TIME) return;
+
+  playerControl.reviveProgress = 0;
+  ctx.lives.remaining[lifePool(ctx.lives, playerControl.slot)]++;
+  ctx.emit({
+    type: 'playerRevived',
+    x: transform.x + transform.width / 2,
+    y: transform.y + transform.height / 2
+  });
+}
+
+/**
+ * Awards extra lives, takes a life when a player's health runs out and
+ * brings the ship back after a short delay with a spell of invulnerability.
+ * A ship out of lives stays down until its lives are topped up again, by
+ * an extra life or by a partner reviving it.
+ */
+export function livesSystem(ctx: SimulationContext) {
+  const { lives, stats, now } = ctx;
+
+  while (stats.score >= extraLifeThreshold(lives.config, lives.extraLivesAwarded)) {
+    lives.extraLivesAwarded++;
+    for (let i = 0; i < lives.remaining.length; i++) {
+      lives.remaining[i]++;
+    }
+    ctx.emit({ type: 'extraLife' });
+  }
+
+  ctx.pools.players.forEach(player => {
+    const { health, playerControl, transform } = player;
+    if (!player.active || health.current > 0) return;
+
+    const pool = lifePool(lives, playerControl.slot);
+    if (playerControl.respawnAt === Infinity) {
+      if (lives.remaining[pool] > 0) {
+        playerControl.respawnAt = now + RESPAWN_DELAY;
+      } else {
+        updateRevive(ctx, player);
+      }
+    } else if (playerControl.respawnAt === null) {
+      lives.remaining[pool] = Math.max(0, lives.remaining[pool] - 1);
+      playerControl.powerUps = [];
+      player.graze.meter = 0;
+      player.graze.overdriveUntil = 0;
+      // Losing a ship costs a weapon level
+      const { loadout } = playerControl;
+      equipWeapon(player, loadout.weapon, Math.max(1, loadout.level - 1));
+      // Out of lives, the ship stays down until it gets one back
+      playerControl.respawnAt = lives.remaining[pool] > 0 ? now + RESPAWN_DELAY : Infinity;
+      ctx.emit({
+        type: 'playerDestroyed',
+        slot: playerControl.slot,
+        x: transform.x + transform.width / 2,
+        y: transform.y + transform.height / 2
+      });
+    } else if (now >= playerControl.respawnAt) {
+      restorePlayer(player);
+      // A fresh ship comes with at least the starting stock of bombs
+      playerControl.bombs = Math.max(playerControl.bombs, STARTING_BOMBS);
+      health.invulnerableUntil = now + RESPAWN_INVULNERABILITY;
+      playerControl.respawnAt = null;
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { getBossDefinition } from '../boss-catalog';
+import { CANVAS_WIDTH } from '../constants';
+import type { DropTable } from '../catalog-schemas';
+import { getEnemyArchetype } from '../enemy-catalog';
+import type { With } from '../ecs/world';
+import { spawnPickup } from '../prefabs';
+import type { SeededRandom } from '../random';
+import type { LootStats, PowerUpType } from '../types';
+import type { SimulationContext } from './context';
+
+// After this long without a drop, the next kill that can drop something does
+export const PITY_TIME = 25000;
+
+// Horizontal gap between pickups from a drop of more than one
+const DROP_SPACING = 40;
+
+const PICKUP_SIZE = 30;
+
+export function createLootStats(): LootStats {
+  return { kills: {}, drops: {}, pickups: {}, pityDrops: 0, longestDrought: 0 };
+}
+
+// Catalog key and drop table of a destroyed enemy; boss weak points have
+// neither
+function lootSource(enemy: With<'transform'>): [string, DropTable | undefined] | null {
+  if (enemy.boss) return [enemy.boss.type, getBossDefinition(enemy.boss.type).drops];
+  if (enemy.archetype) return [enemy.archetype, getEnemyArchetype(enemy.archetype).drops];
+  return null;
+}
+
+function rollDrop(random: SeededRandom, table: DropTable['table']): PowerUpType {
+  const total = table.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random.next() * total;
+  for (const entry of table) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.type;
+  }
+  return table[table.length - 1].type;
+}
+
+/**
+ * Rolls a destroyed enemy's drop table and drops what it gives where the
+ * enemy died. Guaranteed drops ignore the difficulty's drop rate, and a
+ * long enough drought forces the next drop.
+ */
+export function dropLoot(ctx: SimulationContext, enemy: With<'transform'>) {
+  const source = lootSource(enemy);
+  if (!source) return;
+
+  const [key, drops] = source;
+  const { spawner, now } = ctx;
+  const { loot } = ctx.stats;
+  loot.kills[key] = (loot.kills[key] ?? 0) + 1;
+  if (!drops) return;
+
+  const guaranteed = drops.chance >= 1;
+  const rolled = guaranteed || ctx.random.next() < drops.chance * ctx.difficulty.dropRate;
+  const pity = !rolled && now - spawner.lastLootDrop >= PITY_TIME;
+  if (!rolled && !pity) return;
+
+  loot.drops[key] = (loot.drops[key] ?? 0) + 1;
+  if (pity) loot.pityDrops++;
+  loot.longestDrought = Math.max(loot.longestDrought, now - spawner.lastLootDrop);
+  spawner.lastLootDrop = now;
+
+  const { transform } = enemy;
+  const x = transform.x + transform.width / 2;
+  const y = transform.y + transform.height / 2;
+  for (let i = 0; i < drops.count; i++) {
+    const type = rollDrop(ctx.random, drops.table);
+    const offset = (i - (drops.count - 1) / 2) * DROP_SPACING;
+    const left = Math.max(0, Math.min(CANVAS_WIDTH - PICKUP_SIZE, x + offset - PICKUP_SIZE / 2));
+    if (!spawnPickup(ctx, type, left, y - PICKUP_SIZE / 2)) break;
+    loot.pickups[type] = (loot.pickups[type] ?? 0) + 1;
+  }
+}
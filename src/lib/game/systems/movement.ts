@@ -0,0 +1,19 @@
+import type { World } from '../ecs/world';
+
+/** Records last tick's positions so the renderer can interpolate. */
+export function snapshotSystem(world: World) {
+  world.each(['transform'], ({ transform }) => {
+    transform.prevX = transform.x;
+    transform.prevY = transform.y;
+  });
+}
+
+/** Moves everything by its velocity; enemies and their shots by `enemyTimeScale` of it. */
+export function movementSystem(world: World, enemyTimeScale = 1) {
+  world.each(['transform', 'velocity'], ({ transform, velocity, collider }) => {
+    const layer = collider?.layer;
+    const scale = layer === 'enemy' || layer === 'enemyShot' ? enemyTimeScale : 1;
+    transform.x += velocity.x * scale;
+    transform.y += velocity.y * scale;
+  });
+}
@@ -0,0 +1,162 @@
+import { getBulletPattern, type BulletMotion, type BulletPattern } from '../bullet-patterns';
+import type { With, World } from '../ecs/world';
+import { spawnProjectile } from '../prefabs';
+import type { SimulationContext } from './context';
+import { nearestPlayer } from './targeting';
+
+type Emitter = With<'transform' | 'weapon'>;
+
+/** Part of a pattern waiting for its delay to elapse. */
+export interface ScheduledVolley {
+  time: number; // enemy time
+  emitter: Emitter;
+  emitterId: number;
+  pattern: BulletPattern;
+}
+
+const DEGREES = Math.PI / 180;
+
+// Angle in degrees from straight down towards the nearest player
+function aimAt(ctx: SimulationContext, x: number, y: number) {
+  const player = nearestPlayer(ctx.world, x, y);
+  if (!player) return 0;
+
+  const { transform } = player;
+  return Math.atan2(transform.x + transform.width / 2 - x, transform.y + transform.height / 2 - y) / DEGREES;
+}
+
+function fireBullet(
+  ctx: SimulationContext,
+  emitter: Emitter,
+  x: number,
+  y: number,
+  angle: number,
+  speed: number | undefined,
+  motion: BulletMotion | undefined
+) {
+  const velocity = (speed ?? emitter.weapon.projectileSpeed) * ctx.difficulty.bulletSpeed;
+  const projectile = spawnProjectile(
+    ctx,
+    x - 2,
+    y,
+    Math.sin(angle * DEGREES) * velocity,
+    Math.cos(angle * DEGREES) * velocity,
+    emitter.weapon.damage,
+    'enemyShot'
+  );
+  if (projectile && motion) {
+    projectile.speedChange.startTime = ctx.enemyTime + motion.delay;
+    projectile.speedChange.targetSpeed = motion.targetSpeed * ctx.difficulty.bulletSpeed;
+    projectile.speedChange.acceleration = motion.acceleration;
+  }
+}
+
+// Bullets in a volley authored with `count`, thinned or thickened by the difficulty
+function density(ctx: SimulationContext, count: number) {
+  return Math.max(1, Math.round(count * ctx.difficulty.patternDensity));
+}
+
+/**
+ * Fires `pattern` from `emitter`, now or after `delay` milliseconds.
+ * Bullets leave from the bottom center of the emitter's hull.
+ */
+export function firePattern(ctx: SimulationContext, emitter: Emitter, pattern: BulletPattern, delay = 0) {
+  if (delay > 0) {
+    ctx.volleys.push({ time: ctx.enemyTime + delay, emitter, emitterId: emitter.id, pattern });
+    return;
+  }
+
+  const { transform, weapon } = emitter;
+  const x = transform.x + transform.width / 2;
+  const y = transform.y + transform.height;
+
+  switch (pattern.type) {
+    case 'aimed':
+      fireBullet(ctx, emitter, x, y, aimAt(ctx, x, y), pattern.speed, pattern.motion);
+      break;
+
+    case 'spread': {
+      const count = density(ctx, pattern.count);
+      const center = pattern.angle + (pattern.aimed ? aimAt(ctx, x, y) : 0);
+      const step = count > 1 ? pattern.arc / (count - 1) : 0;
+      const first = count > 1 ? center - pattern.arc / 2 : center;
+      for (let i = 0; i < count; i++) {
+        fireBullet(ctx, emitter, x, y, first + i * step, pattern.speed, pattern.motion);
+      }
+      break;
+    }
+
+    case 'ring': {
+      const count = density(ctx, pattern.count);
+      const start = pattern.angle + (pattern.aimed ? aimAt(ctx, x, y) : 0);
+      for (let i = 0; i < count; i++) {
+        fireBullet(ctx, emitter, x, y, start + (360 * i) / count, pattern.speed, pattern.motion);
+      }
+      break;
+    }
+
+    case 'spiral': {
+      const arms = density(ctx, pattern.arms);
+      for (let i = 0; i < arms; i++) {
+        fireBullet(ctx, emitter, x, y, weapon.spin + (360 * i) / arms, pattern.speed, pattern.motion);
+      }
+      weapon.spin = (weapon.spin + pattern.step) % 360;
+      break;
+    }
+
+    case 'burst':
+      for (let i = 0; i < pattern.shots; i++) {
+        firePattern(ctx, emitter, pattern.pattern, i * pattern.delay);
+      }
+      break;
+
+    case 'sequence':
+      pattern.steps.forEach(step => firePattern(ctx, emitter, step.pattern, step.delay));
+      break;
+
+    case 'group':
+      pattern.patterns.forEach(child => firePattern(ctx, emitter, child));
+      break;
+
+    case 'ref':
+      firePattern(ctx, emitter, getBulletPattern(pattern.name));
+      break;
+  }
+}
+
+/** Fires scheduled volleys that are due, dropping those whose emitter is gone. */
+export function volleySystem(ctx: SimulationContext) {
+  const due = ctx.volleys.filter(volley => volley.time <= ctx.enemyTime);
+  if (due.length === 0) return;
+
+  ctx.volleys = ctx.volleys.filter(volley => volley.time > ctx.enemyTime);
+  due.forEach(volley => {
+    if (volley.emitter.active && volley.emitter.id === volley.emitterId) {
+      firePattern(ctx, volley.emitter, volley.pattern);
+    }
+  });
+}
+
+/**
+ * Eases projectile speeds towards their target once their change has
+ * started, at `enemyTimeScale` of the authored rate.
+ */
+export function speedChangeSystem(world: World, enemyTime: number, enemyTimeScale = 1) {
+  world.each(['velocity', 'speedChange'], ({ velocity, speedChange }) => {
+    if (speedChange.acceleration === 0 || enemyTime < speedChange.startTime) return;
+
+    const speed = Math.hypot(velocity.x, velocity.y);
+    if (speed === 0) return;
+
+    const difference = speedChange.targetSpeed - speed;
+    const step = speedChange.acceleration * enemyTimeScale;
+    const next = Math.abs(difference) <= step
+      ? speedChange.targetSpeed
+      : speed + Math.sign(difference) * step;
+    velocity.x *= next / speed;
+    velocity.y *= next / speed;
+    if (next === speedChange.targetSpeed) {
+      speedChange.acceleration = 0;
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import { InputFlag, playerInput, playerThrottle } from '../input';
+import type { SimulationContext } from './context';
+
+/** Applies each player's part of the tick's input mask to their ship. */
+export function playerControlSystem(ctx: SimulationContext) {
+  ctx.world.each(['transform', 'playerControl'], entity => {
+    const { transform } = entity;
+    const input = playerInput(ctx.input, entity.playerControl.slot);
+
+    // Destroyed ships ignore input until they respawn
+    if (entity.playerControl.respawnAt !== null) {
+      if (entity.weapon) entity.weapon.trigger = false;
+      return;
+    }
+
+    // An analog stick held part way moves the ship proportionally slower
+    const { speed } = entity.playerControl;
+    const [throttleX, throttleY] = playerThrottle(ctx.input, entity.playerControl.slot);
+    const speedX = speed * throttleX;
+    const speedY = speed * throttleY;
+
+    if (input & InputFlag.UP) {
+      transform.y = Math.max(0, transform.y - speedY);
+    }
+    if (input & InputFlag.DOWN) {
+      transform.y = Math.min(CANVAS_HEIGHT - transform.height, transform.y + speedY);
+    }
+    if (input & InputFlag.LEFT) {
+      transform.x = Math.max(0, transform.x - speedX);
+    }
+    if (input & InputFlag.RIGHT) {
+      transform.x = Math.min(CANVAS_WIDTH - transform.width, transform.x + speedX);
+    }
+
+    if (entity.weapon) {
+      entity.weapon.trigger = (input & InputFlag.SHOOT) !== 0;
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import { POWER_UP_ARCHETYPES } from '../archetypes';
+import type { Pickup } from '../ecs/components';
+import type { With } from '../ecs/world';
+import { MAX_BOMBS, equipWeapon } from '../prefabs';
+import { MAX_WEAPON_LEVEL } from '../weapon-catalog';
+import type { PowerUpEffect, PowerUpType } from '../types';
+import type { SimulationContext } from './context';
+import { lifePool } from './lives';
+
+const HEAL_AMOUNT = 35;
+
+// Pickups within this distance of a ship with a magnet fly to it
+const MAGNET_RADIUS = 300;
+const MAGNET_SPEED = 6;
+
+// Enemies and their shots move and fire at this fraction of normal speed
+// while time slow is active
+const TIME_SLOW_SCALE = 0.5;
+
+export function hasActivePowerUp(effects: PowerUpEffect[], type: PowerUpType, now: number) {
+  return powerUpStacks(effects, type, now) > 0;
+}
+
+/** Level or stack count of an active effect, 0 if it isn't active. */
+export function powerUpStacks(effects: PowerUpEffect[], type: PowerUpType, now: number) {
+  const effect = effects.find(p => p.type === type);
+  return effect && now - effect.startTime < effect.duration ? effect.stacks : 0;
+}
+
+// Whether any ship in play has the effect
+function playersHave(ctx: SimulationContext, type: PowerUpType) {
+  let found = false;
+  ctx.pools.players.forEach(({ playerControl }) => {
+    found ||= hasActivePowerUp(playerControl.powerUps, type, ctx.now);
+  });
+  return found;
+}
+
+/** Speed enemies and their shots run at, slowed by time slow. */
+export function enemyTimeScale(ctx: SimulationContext) {
+  return playersHave(ctx, 'timeSlow') ? TIME_SLOW_SCALE : 1;
+}
+
+/** Multiplier on points for kills, doubled by score x2. */
+export function scoreBonus(ctx: SimulationContext) {
+  return playersHave(ctx, 'scoreDouble') ? 2 : 1;
+}
+
+/** Drops expired power-up effects and pulls pickups towards magnets. */
+export function powerUpSystem(ctx: SimulationContext) {
+  ctx.world.each(['playerControl', 'transform'], ({ playerControl, transform }) => {
+    playerControl.powerUps = playerControl.powerUps.filter(powerUp => {
+      return ctx.now - powerUp.startTime < powerUp.duration;
+    });
+
+    if (!hasActivePowerUp(playerControl.powerUps, 'magnet', ctx.now) || playerControl.respawnAt !== null) return;
+
+    const x = transform.x + transform.width / 2;
+    const y = transform.y + transform.height / 2;
+    ctx.pools.pickups.forEach(pickup => {
+      if (!pickup.active) return;
+
+      const dx = x - (pickup.transform.x + pickup.transform.width / 2);
+      const dy = y - (pickup.transform.y + pickup.transform.height / 2);
+      const distance = Math.hypot(dx, dy);
+      if (distance === 0 || distance > MAGNET_RADIUS) return;
+
+      pickup.velocity.x = (dx / distance) * MAGNET_SPEED;
+      pickup.velocity.y = (dy / distance) * MAGNET_SPEED;
+    });
+  });
+}
+
+// Adds a timed effect, combining it with an active one of the same type
+// according to the type's stacking rule
+function addEffect(effects: PowerUpEffect[], type: PowerUpType, duration: number, now: number) {
+  const { stacking, maxStacks } = POWER_UP_ARCHETYPES[type];
+  const effect = effects.find(p => p.type === type);
+  if (!effect) {
+    effects.push({ type, duration, startTime: now, stacks: 1 });
+    return;
+  }
+
+  const remaining = Math.max(0, effect.duration - (now - effect.startTime));
+  switch (stacking) {
+    case 'refresh':
+      effect.duration = duration;
+      effect.startTime = now;
+      break;
+
+    case 'extend':
+      effect.duration = Math.min(remaining + duration, duration * maxStacks);
+      effect.startTime = now;
+      break;
+
+    case 'level':
+      effect.stacks = Math.min(maxStacks, effect.stacks + 1);
+      effect.duration = duration;
+      effect.startTime = now;
+      break;
+
+    case 'stack':
+      effect.stacks = Math.min(maxStacks, effect.stacks + 1);
+      break;
+  }
+}
+
+export function collectPowerUp(
+  ctx: SimulationContext,
+  player: With<'health' | 'weapon' | 'playerControl'>,
+  pickup: Pickup
+) {
+  const { type, duration } = pickup;
+  const control = player.playerControl;
+  const { loadout } = control;
+
+  switch (POWER_UP_ARCHETYPES[type].action) {
+    case 'timed':
+      addEffect(control.powerUps, type, duration, ctx.now);
+      break;
+
+    case 'upgrade':
+      equipWeapon(player, loadout.weapon, Math.min(MAX_WEAPON_LEVEL, loadout.level + 1));
+      break;
+
+    case 'weapon':
+      // Picking up the weapon already equipped upgrades it; another one
+      // is swapped in at the same level
+      equipWeapon(
+        player,
+        pickup.weapon,
+        pickup.weapon === loadout.weapon ? Math.min(MAX_WEAPON_LEVEL, loadout.level + 1) : loadout.level
+      );
+      break;
+
+    case 'bomb':
+      control.bombs = Math.min(MAX_BOMBS, control.bombs + 1);
+      break;
+
+    case 'heal':
+      player.health.current = Math.min(player.health.max, player.health.current + HEAL_AMOUNT);
+      break;
+
+    case 'extraLife':
+      ctx.lives.remaining[lifePool(ctx.lives, control.slot)]++;
+      ctx.emit({ type: 'extraLife' });
+      break;
+  }
+}
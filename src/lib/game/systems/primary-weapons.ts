@@ -0,0 +1,62 @@
+import type { PlayerControl } from '../ecs/components';
+import type { With } from '../ecs/world';
+import { spawnBeam, spawnProjectile } from '../prefabs';
+import { getWeaponDefinition } from '../weapon-catalog';
+import type { SimulationContext } from './context';
+import { powerUpStacks } from './power-ups';
+
+const DEGREES = Math.PI / 180;
+
+// Per level of the matching power-up
+const DAMAGE_UP_BONUS = 0.25;
+const HOMING_TURN_RATE = 1.5;
+
+/**
+ * Fires a player's primary weapon at its current level. Projectiles fan
+ * out across the level's arc and spacing from the nose of the ship.
+ * Damage up, homing and piercing power-ups add to the level's stats.
+ */
+export function firePrimary(ctx: SimulationContext, player: With<'transform'>, control: PlayerControl) {
+  const { loadout, powerUps } = control;
+  const weapon = getWeaponDefinition(loadout.weapon);
+  const level = weapon.levels[loadout.level - 1];
+  const stats = {
+    ...level,
+    damage: level.damage * (1 + DAMAGE_UP_BONUS * powerUpStacks(powerUps, 'damageUp', ctx.now)),
+    turnRate: Math.max(level.turnRate, HOMING_TURN_RATE * powerUpStacks(powerUps, 'homing', ctx.now)),
+    pierce: level.pierce + powerUpStacks(powerUps, 'piercing', ctx.now)
+  };
+
+  if (weapon.kind === 'beam') {
+    if (spawnBeam(ctx, player, stats, weapon.color)) {
+      ctx.stats.shotsFired++;
+    }
+    return;
+  }
+
+  const { transform } = player;
+  const noseX = transform.x + transform.width / 2;
+  for (let i = 0; i < stats.count; i++) {
+    // Position within the fan, from -0.5 to 0.5
+    const offset = stats.count > 1 ? i / (stats.count - 1) - 0.5 : 0;
+    const angle = offset * stats.arc * DEGREES;
+    const projectile = spawnProjectile(
+      ctx,
+      noseX + offset * stats.spacing * (stats.count - 1) - stats.width / 2,
+      transform.y - stats.height,
+      Math.sin(angle) * stats.speed,
+      -Math.cos(angle) * stats.speed,
+      stats.damage,
+      'playerShot'
+    );
+    if (!projectile) return;
+    ctx.stats.shotsFired++;
+
+    projectile.transform.width = stats.width;
+    projectile.transform.height = stats.height;
+    projectile.homing.turnRate = stats.turnRate;
+    projectile.piercing.remaining = stats.pierce;
+    projectile.shooter = control.slot;
+    projectile.sprite.color = weapon.color;
+  }
+}
@@ -0,0 +1,45 @@
+import { POWER_UP_ARCHETYPES, POWER_UP_TYPES } from '../archetypes';
+import { CANVAS_WIDTH } from '../constants';
+import type { DifficultySettings } from '../difficulty';
+import { spawnPickup } from '../prefabs';
+import type { SeededRandom } from '../random';
+import type { PowerUpType } from '../types';
+import type { SimulationContext } from './context';
+
+const TOTAL_POWER_UP_WEIGHT = POWER_UP_TYPES.reduce((total, type) => total + POWER_UP_ARCHETYPES[type].weight, 0);
+
+/** Picks a power-up type for a random drop, weighted by the registry. */
+export function rollPowerUp(random: SeededRandom): PowerUpType {
+  let roll = random.next() * TOTAL_POWER_UP_WEIGHT;
+  for (const type of POWER_UP_TYPES) {
+    roll -= POWER_UP_ARCHETYPES[type].weight;
+    if (roll < 0) return type;
+  }
+  return POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+}
+
+export interface SpawnerState {
+  lastPowerUpSpawn: number;
+  powerUpSpawnRate: number;
+  // Game time of the last enemy loot drop, for the pity timer
+  lastLootDrop: number;
+}
+
+export function createSpawnerState(difficulty: DifficultySettings): SpawnerState {
+  return {
+    lastPowerUpSpawn: -Infinity,
+    powerUpSpawnRate: 10000 * difficulty.powerUpInterval,
+    lastLootDrop: 0
+  };
+}
+
+/** Occasionally drops a power-up once its timer has elapsed. Enemies come from the wave system. */
+export function spawnSystem(ctx: SimulationContext) {
+  const { spawner, random, now } = ctx;
+
+  if (now - spawner.lastPowerUpSpawn > spawner.powerUpSpawnRate && random.next() < ctx.difficulty.powerUpChance) {
+    const type = rollPowerUp(random);
+    spawnPickup(ctx, type, random.range(0, CANVAS_WIDTH - 30));
+    spawner.lastPowerUpSpawn = now;
+  }
+}
@@ -0,0 +1,46 @@
+import type { With, World } from '../ecs/world';
+
+/**
+ * The ship in play closest to (x, y), or null if every ship is destroyed
+ * or waiting to respawn.
+ */
+export function nearestPlayer(world: World, x: number, y: number): With<'transform'> | null {
+  let nearest: With<'transform'> | null = null;
+  let nearestDistance = Infinity;
+
+  world.each(['transform', 'playerControl'], player => {
+    if (player.playerControl.respawnAt !== null) return;
+
+    const { transform } = player;
+    const distance = Math.hypot(
+      transform.x + transform.width / 2 - x,
+      transform.y + transform.height / 2 - y
+    );
+    if (distance < nearestDistance) {
+      nearest = player;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/** The on-screen enemy closest to (x, y), or null if there is none. */
+export function nearestEnemy(world: World, x: number, y: number): With<'transform'> | null {
+  let nearest: With<'transform'> | null = null;
+  let nearestDistance = Infinity;
+
+  world.each(['transform', 'collider', 'health'], enemy => {
+    const { transform } = enemy;
+    if (enemy.collider.layer !== 'enemy' || transform.y + transform.height < 0) return;
+
+    const distance = Math.hypot(
+      transform.x + transform.width / 2 - x,
+      transform.y + transform.height / 2 - y
+    );
+    if (distance < nearestDistance) {
+      nearest = enemy;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
@@ -0,0 +1,258 @@
+import { BOSS_CATALOG, getBossDefinition } from '../boss-catalog';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, FIXED_TIMESTEP } from '../constants';
+import { ENEMY_CATALOG, getEnemyArchetype } from '../enemy-catalog';
+import type { Pool } from '../pool';
+import { spawnBoss, spawnEnemy, spawnPickup } from '../prefabs';
+import type { SeededRandom } from '../random';
+import { isPathBehavior, type MovementBehavior } from '../movement-behaviors';
+import {
+  FORMATIONS,
+  WAVE_SCRIPT,
+  type SpawnGroup,
+  type WaveDefinition
+} from '../wave-script';
+import type { SimulationContext } from './context';
+import { rollPowerUp } from './spawning';
+
+// How long the "Wave N" announcement holds before the wave's first spawn
+export const WAVE_ANNOUNCE_DURATION = 2000;
+
+// Every fifth procedural wave is a boss fight
+const BOSS_WAVE_INTERVAL = 5;
+
+// Bullet patterns procedural waves start mixing in from wave 10
+const LATE_GAME_PATTERNS = ['doubleTap', 'fan5', 'ring12', 'slowRing'];
+
+interface ScheduledSpawn {
+  // Time into the wave at a spawn rate of 1
+  time: number;
+  enemy: string;
+  // Center of the enemy, before clamping to the playfield
+  x: number;
+  // Extra height above the spawn point, for staggered formations
+  yOffset: number;
+  // Path start is offset by the member's place in the formation
+  offsetX: number;
+  path?: MovementBehavior;
+  pattern?: string;
+}
+
+export interface WaveState {
+  phase: 'announcing' | 'active';
+  phaseStart: number; // game time
+  definition: WaveDefinition;
+  schedule: ScheduledSpawn[];
+  nextSpawn: number;
+  // How far the schedule has played, advancing at the current spawn rate so
+  // adaptive changes apply mid-wave
+  scheduleTime: number;
+  killsAtStart: number;
+}
+
+export function createWaveState(random: SeededRandom): WaveState {
+  return {
+    phase: 'announcing',
+    phaseStart: 0,
+    definition: getWaveDefinition(1, random),
+    schedule: [],
+    nextSpawn: 0,
+    scheduleTime: 0,
+    killsAtStart: 0
+  };
+}
+
+/** Authored wave `number` (1-based), or a generated one past the end of the script. */
+function getWaveDefinition(number: number, random: SeededRandom): WaveDefinition {
+  return WAVE_SCRIPT.waves[number - 1] ?? generateWave(number, random);
+}
+
+// Procedural waves grow in size and density with the wave number and draw
+// from every archetype the catalog allows at that point
+function generateWave(number: number, random: SeededRandom): WaveDefinition {
+  if (number % BOSS_WAVE_INTERVAL === 0) {
+    return generateBossWave(number, random);
+  }
+
+  const types = Object.keys(ENEMY_CATALOG)
+    .filter(type => ENEMY_CATALOG[type].spawn.fromWave <= number);
+  const groupCount = Math.min(6, 2 + Math.floor(number / 3));
+  const groupGap = Math.max(1500, 4000 - number * 100);
+
+  const groups: SpawnGroup[] = [];
+  for (let i = 0; i < groupCount; i++) {
+    const formation = random.pick(FORMATIONS);
+    groups.push({
+      enemy: random.pick(types),
+      count: 3 + random.int(2 + Math.floor(number / 4)),
+      delay: i * groupGap,
+      interval: formation === 'line' ? 0 : Math.max(200, 700 - number * 20),
+      formation,
+      x: random.range(0.2, 0.8),
+      spacing: 70,
+      pattern: number >= 10 && random.next() < 0.3 ? random.pick(LATE_GAME_PATTERNS) : undefined
+    });
+  }
+
+  return {
+    groups,
+    clear: { type: 'defeated' },
+    reward: number % 3 === 0
+      ? { score: 0, powerUp: rollPowerUp(random) }
+      : { score: number * 50 }
+  };
+}
+
+// Bosses take turns and come back tougher each time round
+function generateBossWave(number: number, random: SeededRandom): WaveDefinition {
+  const types = Object.keys(BOSS_CATALOG);
+  const encounter = number / BOSS_WAVE_INTERVAL - 1;
+  const type = types[encounter % types.length];
+
+  return {
+    name: getBossDefinition(type).name,
+    groups: [],
+    boss: { type, healthScale: 1 + encounter * 0.5 },
+    clear: { type: 'defeated' },
+    reward: { score: number * 200, powerUp: rollPowerUp(random) }
+  };
+}
+
+function scheduleWave(ctx: SimulationContext, definition: WaveDefinition): ScheduledSpawn[] {
+  const schedule: ScheduledSpawn[] = [];
+
+  const { waveSize } = ctx.difficulty;
+
+  for (const group of definition.groups) {
+    const count = Math.max(1, Math.round(group.count * waveSize));
+    for (let i = 0; i < count; i++) {
+      // Offset of this member from the formation center, in members
+      const offset = i - (count - 1) / 2;
+      let x = group.x * CANVAS_WIDTH;
+      let yOffset = 0;
+
+      switch (group.formation) {
+        case 'line':
+          x += offset * group.spacing;
+          break;
+        case 'v': {
+          // Leader in the middle, wings trailing behind it on alternate sides
+          const rank = Math.ceil(i / 2);
+          x += (i % 2 === 0 ? rank : -rank) * group.spacing;
+          yOffset = rank * group.spacing * 0.75;
+          break;
+        }
+        case 'random':
+          x = ctx.random.range(0, CANVAS_WIDTH);
+          break;
+        case 'column':
+          break;
+      }
+
+      schedule.push({
+        time: group.delay + i * group.interval,
+        enemy: group.enemy,
+        x,
+        yOffset,
+        offsetX: x - group.x * CANVAS_WIDTH,
+        path: group.path,
+        pattern: group.pattern
+      });
+    }
+  }
+
+  // Stable sort keeps authored order for simultaneous spawns
+  return schedule.sort((a, b) => a.time - b.time);
+}
+
+function spawnScheduled(ctx: SimulationContext, spawn: ScheduledSpawn) {
+  const archetype = getEnemyArchetype(spawn.enemy);
+  const { width, height } = archetype.size;
+  const { path, pattern } = spawn;
+
+  if (path && isPathBehavior(path)) {
+    // Paths place the enemy themselves, so it may start off to the side
+    const [startX, startY] = path.points[0];
+    const x = startX * CANVAS_WIDTH + spawn.offsetX - width / 2;
+    const y = startY * CANVAS_HEIGHT - spawn.yOffset - height / 2;
+    spawnEnemy(ctx, spawn.enemy, x, { y, behavior: path, pattern });
+    return;
+  }
+
+  const x = Math.max(0, Math.min(CANVAS_WIDTH - width, spawn.x - width / 2));
+  spawnEnemy(ctx, spawn.enemy, x, { y: archetype.spawn.y - spawn.yOffset, behavior: path, pattern });
+}
+
+function countActive<T extends { active: boolean }>(pool: Pool<T>) {
+  let alive = 0;
+  pool.forEach(entity => {
+    if (entity.active) alive++;
+  });
+  return alive;
+}
+
+function isWaveCleared(ctx: SimulationContext, state: WaveState) {
+  const { clear, boss } = state.definition;
+  if (boss) return countActive(ctx.pools.bosses) === 0;
+
+  switch (clear.type) {
+    case 'kills':
+      // Sized along with the wave's groups
+      return ctx.stats.enemiesKilled - state.killsAtStart >= Math.max(1, Math.round(clear.count * ctx.difficulty.waveSize));
+    case 'time':
+      return ctx.now - state.phaseStart >= clear.duration;
+    case 'defeated': {
+      if (state.nextSpawn < state.schedule.length) return false;
+      return countActive(ctx.pools.enemies) === 0;
+    }
+  }
+}
+
+function grantReward(ctx: SimulationContext, definition: WaveDefinition) {
+  const { reward } = definition;
+  if (!reward) return;
+
+  ctx.stats.score += reward.score;
+  if (reward.powerUp) {
+    spawnPickup(ctx, reward.powerUp, CANVAS_WIDTH / 2 - 15);
+  }
+}
+
+/**
+ * Plays waves in sequence: announces each one, spawns its schedule, and
+ * moves on once its clear condition holds.
+ */
+export function waveSystem(ctx: SimulationContext) {
+  const { waves: state, stats } = ctx;
+
+  if (state.phase === 'announcing') {
+    if (ctx.now - state.phaseStart < WAVE_ANNOUNCE_DURATION) return;
+
+    state.phase = 'active';
+    state.phaseStart = ctx.now;
+    state.schedule = scheduleWave(ctx, state.definition);
+    state.nextSpawn = 0;
+    state.scheduleTime = 0;
+    state.killsAtStart = stats.enemiesKilled;
+
+    const { boss } = state.definition;
+    if (boss) {
+      spawnBoss(ctx, boss.type, boss.healthScale);
+    }
+    return;
+  }
+
+  state.scheduleTime += FIXED_TIMESTEP * ctx.difficulty.spawnRate;
+  while (state.nextSpawn < state.schedule.length && state.schedule[state.nextSpawn].time <= state.scheduleTime) {
+    spawnScheduled(ctx, state.schedule[state.nextSpawn++]);
+  }
+
+  if (isWaveCleared(ctx, state)) {
+    grantReward(ctx, state.definition);
+    ctx.emit({ type: 'waveCleared', wave: stats.wave });
+
+    stats.wave++;
+    state.phase = 'announcing';
+    state.phaseStart = ctx.now;
+    state.definition = getWaveDefinition(stats.wave, ctx.random);
+  }
+}
@@ -0,0 +1,56 @@
+import { getBulletPattern } from '../bullet-patterns';
+import { spawnProjectile } from '../prefabs';
+import type { SimulationContext } from './context';
+import { isOverdriven } from './grazing';
+import { firePattern } from './patterns';
+import { firePrimary } from './primary-weapons';
+import { hasActivePowerUp } from './power-ups';
+
+/** Fires every weapon that is triggered (or automatic) and off cooldown. */
+export function weaponSystem(ctx: SimulationContext) {
+  ctx.world.each(['transform', 'weapon', 'collider'], entity => {
+    const { transform, weapon } = entity;
+    if (!weapon.automatic && !weapon.trigger) return;
+
+    // Enemies fire faster on harder difficulties, and on enemy time so
+    // slower under time slow
+    const hostile = entity.collider.layer === 'enemy';
+    const now = hostile ? ctx.enemyTime : ctx.now;
+    const effects = entity.playerControl?.powerUps ?? [];
+    let cooldown = hostile ? weapon.cooldown / ctx.difficulty.fireRate : weapon.cooldown;
+    
+    // Check for rapid fire power-up
+    if (hasActivePowerUp(effects, 'rapidFire', now)) {
+      cooldown = weapon.cooldown / 3;
+    }
+    if (entity.graze && isOverdriven(entity.graze, now)) {
+      cooldown /= 2;
+    }
+    
+    if (now - weapon.lastShot <= cooldown) return;
+    weapon.lastShot = now;
+
+    if (entity.playerControl) {
+      firePrimary(ctx, entity, entity.playerControl);
+      ctx.emit({ type: 'playerShot' });
+      return;
+    }
+
+    if (weapon.pattern) {
+      firePattern(ctx, entity, getBulletPattern(weapon.pattern));
+      return;
+    }
+
+    // Shots leave from the edge of the hull facing their direction of travel
+    const x = transform.x + transform.width / 2 - 2;
+    const y = weapon.projectileSpeed < 0 ? transform.y : transform.y + transform.height;
+    const layer = entity.collider.layer === 'player' ? 'playerShot' : 'enemyShot';
+    const speed = layer === 'enemyShot' ? weapon.projectileSpeed * ctx.difficulty.bulletSpeed : weapon.projectileSpeed;
+    const projectile = spawnProjectile(ctx, x, y, 0, speed, weapon.damage, layer);
+    if (projectile && layer === 'playerShot') {
+      ctx.stats.shotsFired++;
+      // Drone shots count towards the ship the drone belongs to
+      projectile.shooter = entity.attachment?.parent?.playerControl?.slot ?? -1;
+    }
+  });
+}
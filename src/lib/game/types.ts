@@ -0,0 +1,66 @@
+export interface Vector2D {
+  x: number;
+  y: number;
+}
+
+// Key into the enemy catalog (see `enemy-catalog.ts`)
+export type EnemyType = string;
+
+export type PowerUpType =
+  | 'rapidFire'
+  | 'shield'
+  | 'upgrade'
+  | 'weapon'
+  | 'bomb'
+  | 'heal'
+  | 'extraLife'
+  | 'homing'
+  | 'piercing'
+  | 'magnet'
+  | 'timeSlow'
+  | 'drone'
+  | 'damageUp'
+  | 'scoreDouble';
+
+export interface PowerUpEffect {
+  type: PowerUpType;
+  duration: number;
+  startTime: number; // game time
+  // Level or stack count, see the power-up's stacking rule
+  stacks: number;
+}
+
+export interface MultiplierSample {
+  time: number; // game time
+  multiplier: number;
+}
+
+export interface LootStats {
+  // Kills and drops by the enemy archetype or boss type that made them
+  kills: Record<string, number>;
+  drops: Record<string, number>;
+  // Pickups dropped, by power-up type
+  pickups: Partial<Record<PowerUpType, number>>;
+  // Drops forced by the pity timer
+  pityDrops: number;
+  // Longest stretch of game time without a drop, in ms
+  longestDrought: number;
+}
+
+export interface GameStats {
+  score: number;
+  wave: number;
+  enemiesKilled: number;
+  // Player shots fired, and those that hit something
+  shotsFired: number;
+  shotsHit: number;
+  // Health lost, after difficulty scaling
+  damageTaken: number;
+  // Part of `score` earned by bomb kills
+  bombScore: number;
+  maxCombo: number;
+  grazes: number;
+  // Every change of the score multiplier, in order
+  multiplierHistory: MultiplierSample[];
+  loot: LootStats;
+}
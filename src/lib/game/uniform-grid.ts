@@ -0,0 +1,116 @@
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function overlaps(a: Bounds, b: Bounds): boolean {
+  return a.x < b.x + b.width &&
+         a.x + a.width > b.x &&
+         a.y < b.y + b.height &&
+         a.y + a.height > b.y;
+}
+
+/** Bounds of a `width` by `height` box centered on `box`. */
+export function centeredBounds(box: Bounds, width: number, height: number): Bounds {
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height
+  };
+}
+
+/**
+ * Uniform-grid broadphase. Items are bucketed by every cell their bounds
+ * (as returned by `getBounds`) touch, so a query only has to narrowphase-test items in nearby cells
+ * instead of every item in the world.
+ *
+ * The grid covers a fixed area; anything outside it is clamped into the
+ * border cells, which keeps results correct for off-screen entities at the
+ * cost of a few extra narrowphase tests. It is meant to be cleared and
+ * refilled every tick; cell buckets are kept and only their fill counts are
+ * reset, since truncating arrays every tick is surprisingly expensive.
+ */
+export class UniformGrid<T> {
+  private columns: number;
+  private rows: number;
+  private cells: T[][];
+  private counts: Uint32Array;
+  private results: T[] = [];
+
+  constructor(
+    private cellSize: number,
+    width: number,
+    height: number,
+    private getBounds: (item: T) => Bounds
+  ) {
+    this.columns = Math.max(1, Math.ceil(width / cellSize));
+    this.rows = Math.max(1, Math.ceil(height / cellSize));
+    this.cells = Array.from({ length: this.columns * this.rows }, () => []);
+    this.counts = new Uint32Array(this.columns * this.rows);
+  }
+
+  clear() {
+    this.counts.fill(0);
+  }
+
+  insert(item: T) {
+    const box = this.getBounds(item);
+    const minX = this.column(box.x);
+    const maxX = this.column(box.x + box.width);
+    const minY = this.row(box.y);
+    const maxY = this.row(box.y + box.height);
+
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const index = cy * this.columns + cx;
+        this.cells[index][this.counts[index]++] = item;
+      }
+    }
+  }
+
+  /**
+   * Returns every item whose bounds overlap `bounds`, each at most once.
+   * The returned array is reused by the next query, so consume it first.
+   */
+  query(bounds: Bounds): T[] {
+    const results = this.results;
+    results.length = 0;
+
+    const minX = this.column(bounds.x);
+    const maxX = this.column(bounds.x + bounds.width);
+    const minY = this.row(bounds.y);
+    const maxY = this.row(bounds.y + bounds.height);
+
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const index = cy * this.columns + cx;
+        const cell = this.cells[index];
+
+        for (let i = 0; i < this.counts[index]; i++) {
+          const item = cell[i];
+          const box = this.getBounds(item);
+          if (!overlaps(bounds, box)) continue;
+
+          // An item spanning several cells is only reported from the first
+          // cell it shares with the query, so no seen-set is needed
+          if (cx === Math.max(this.column(box.x), minX) &&
+              cy === Math.max(this.row(box.y), minY)) {
+            results.push(item);
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  private column(x: number) {
+    return Math.min(this.columns - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private row(y: number) {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+}
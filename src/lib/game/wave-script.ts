@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { BOSS_CATALOG } from './boss-catalog';
+import scriptData from './data/waves.json';
+import { bulletPatternName, powerUpType } from './catalog-schemas';
+import { ENEMY_CATALOG } from './enemy-catalog';
+import { MovementBehaviorSchema } from './movement-behaviors';
+import { parseOrThrow } from './parse-catalog';
+
+/**
+ * Authored waves, from `data/waves.json`. Each wave lists spawn groups
+ * (which enemy, when, where and in which formation), the condition that
+ * clears it and an optional reward. Boss waves name a boss instead of
+ * spawn groups and end when it is destroyed. Once the script runs out the
+ * wave system generates waves procedurally.
+ */
+
+const enemyType = z.string().refine(type => type in ENEMY_CATALOG, type => ({
+  message: `Unknown enemy type: ${type}`
+}));
+
+const bossType = z.string().refine(type => type in BOSS_CATALOG, type => ({
+  message: `Unknown boss type: ${type}`
+}));
+
+export const FORMATIONS = ['line', 'column', 'v', 'random'] as const;
+
+const SpawnGroupSchema = z.object({
+  enemy: enemyType,
+  count: z.number().int().positive(),
+  // Milliseconds after the wave starts
+  delay: z.number().nonnegative().default(0),
+  // Milliseconds between members; 0 spawns the whole group at once
+  interval: z.number().nonnegative().default(0),
+  formation: z.enum(FORMATIONS).default('line'),
+  // Horizontal center of the formation as a fraction of the playfield
+  x: z.number().min(0).max(1).default(0.5),
+  spacing: z.number().nonnegative().default(70),
+  // Overrides the archetype's movement behavior; Bezier and spline paths
+  // start at their first point, shifted by the member's formation offset
+  path: MovementBehaviorSchema.optional(),
+  // Overrides the archetype's bullet pattern, e.g. for harder variants
+  pattern: bulletPatternName.optional()
+});
+
+const ClearConditionSchema = z.discriminatedUnion('type', [
+  // Every enemy has spawned and none is left on screen
+  z.object({ type: z.literal('defeated') }),
+  z.object({ type: z.literal('kills'), count: z.number().int().positive() }),
+  // Survive for the given number of milliseconds
+  z.object({ type: z.literal('time'), duration: z.number().positive() })
+]);
+
+const WaveRewardSchema = z.object({
+  score: z.number().int().nonnegative().default(0),
+  powerUp: powerUpType.optional()
+});
+
+const BossEncounterSchema = z.object({
+  type: bossType,
+  // Multiplies the health of the boss and its weak points
+  healthScale: z.number().positive().default(1)
+});
+
+const WaveSchema = z.object({
+  name: z.string().optional(),
+  groups: z.array(SpawnGroupSchema).default([]),
+  // No other enemies spawn during a boss fight, so boss waves have no groups
+  boss: BossEncounterSchema.optional(),
+  clear: ClearConditionSchema.default({ type: 'defeated' }),
+  reward: WaveRewardSchema.optional()
+}).refine(
+  wave => (wave.groups.length > 0) !== (wave.boss !== undefined),
+  'A wave needs either spawn groups or a boss'
+);
+
+const WaveScriptSchema = z.object({
+  waves: z.array(WaveSchema)
+});
+
+export type Formation = typeof FORMATIONS[number];
+export type SpawnGroup = z.infer<typeof SpawnGroupSchema>;
+export type ClearCondition = z.infer<typeof ClearConditionSchema>;
+export type WaveReward = z.infer<typeof WaveRewardSchema>;
+export type BossEncounter = z.infer<typeof BossEncounterSchema>;
+export type WaveDefinition = z.infer<typeof WaveSchema>;
+export type WaveScript = z.infer<typeof WaveScriptSchema>;
+
+/** Validates raw wave data against the script schema. */
+export function parseWaveScript(data: unknown): WaveScript {
+  return parseOrThrow(WaveScriptSchema, data, 'wave script');
+}
+
+export const WAVE_SCRIPT = parseWaveScript(scriptData);
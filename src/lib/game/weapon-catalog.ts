@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { color } from './catalog-schemas';
+import catalogData from './data/weapons.json';
+import { parseOrThrow } from './parse-catalog';
+
+/**
+ * The player's primary weapons, authored in `data/weapons.json`. Every
+ * weapon has `MAX_WEAPON_LEVEL` levels; a level sets the damage, rate and
+ * projectile count, and optional fields turn shots into piercing or homing
+ * ones. Beams are a column above the ship that damages everything in it.
+ */
+
+export const MAX_WEAPON_LEVEL = 5;
+
+export const STARTING_WEAPON = 'spread';
+
+const WeaponLevelSchema = z.object({
+  damage: z.number().positive(),
+  cooldown: z.number().positive(),
+  // Projectiles per shot, fanned across `arc` degrees and `spacing` pixels
+  count: z.number().int().positive().default(1),
+  arc: z.number().min(0).max(180).default(0),
+  spacing: z.number().nonnegative().default(0),
+  speed: z.number().positive().default(8),
+  // Further enemies a projectile passes through after the first
+  pierce: z.number().int().nonnegative().default(0),
+  // Degrees per tick a projectile turns towards the nearest enemy
+  turnRate: z.number().nonnegative().default(0),
+  width: z.number().positive().default(4),
+  height: z.number().positive().default(8)
+});
+
+const WeaponSchema = z.object({
+  name: z.string(),
+  symbol: z.string().length(1),
+  color,
+  kind: z.enum(['projectile', 'beam']),
+  levels: z.array(WeaponLevelSchema).length(MAX_WEAPON_LEVEL)
+});
+
+const WeaponCatalogSchema = z.record(z.string(), WeaponSchema)
+  .refine(catalog => STARTING_WEAPON in catalog, `Catalog must define the starting weapon, ${STARTING_WEAPON}`);
+
+export type WeaponLevel = z.infer<typeof WeaponLevelSchema>;
+export type WeaponDefinition = z.infer<typeof WeaponSchema>;
+export type WeaponCatalog = z.infer<typeof WeaponCatalogSchema>;
+
+export function parseWeaponCatalog(data: unknown): WeaponCatalog {
+  return parseOrThrow(WeaponCatalogSchema, data, 'weapon catalog');
+}
+
+export const WEAPON_CATALOG = parseWeaponCatalog(catalogData);
+
+export const WEAPON_TYPES = Object.keys(WEAPON_CATALOG);
+
+export function getWeaponDefinition(type: string): WeaponDefinition {
+  const weapon = WEAPON_CATALOG[type];
+  if (!weapon) {
+    throw new Error(`Unknown weapon type: ${type}`);
+  }
+  return weapon;
+}
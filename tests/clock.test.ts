@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FixedStepClock, GameClock } from '@/lib/game/clock';
+
+describe('FixedStepClock', () => {
+  it('advances by exactly the steps it is given', () => {
+    const clock = new FixedStepClock();
+    for (let i = 0; i < 3; i++) clock.advance(20);
+
+    assert.equal(clock.now(), 60);
+  });
+
+  it('returns to zero on reset', () => {
+    const clock = new FixedStepClock();
+    clock.advance(250);
+    clock.reset();
+
+    assert.equal(clock.now(), 0);
+  });
+});
+
+describe('GameClock', () => {
+  it('only advances while running', () => {
+    const clock = new GameClock(new FixedStepClock());
+    clock.advance(100);
+    assert.equal(clock.now(), 0);
+
+    clock.setRunning(true);
+    clock.advance(100);
+    clock.setRunning(false);
+    clock.advance(100);
+
+    assert.equal(clock.now(), 100);
+    assert.equal(clock.isRunning(), false);
+  });
+
+  it('resets its source', () => {
+    const source = new FixedStepClock();
+    const clock = new GameClock(source);
+    clock.setRunning(true);
+    clock.advance(100);
+    clock.reset();
+
+    assert.equal(source.now(), 0);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { COMBO_WINDOW, breakCombo, comboSystem, createComboState, registerKill } from '@/lib/game/systems/combo';
+import type { SimulationContext } from '@/lib/game/systems/context';
+
+// Only the parts of the context the combo rules touch
+function createContext() {
+  return {
+    now: 0,
+    combo: createComboState(),
+    stats: { maxCombo: 0, multiplierHistory: [] }
+  } as unknown as SimulationContext;
+}
+
+function registerKills(ctx: SimulationContext, count: number) {
+  for (let i = 0; i < count; i++) registerKill(ctx);
+}
+
+describe('combo', () => {
+  it('steps the multiplier up every five kills', () => {
+    const ctx = createContext();
+    registerKills(ctx, 4);
+    assert.equal(ctx.combo.multiplier, 1);
+
+    assert.equal(registerKill(ctx), 2);
+    registerKills(ctx, 5);
+    assert.equal(ctx.combo.multiplier, 3);
+    assert.equal(ctx.stats.maxCombo, 10);
+  });
+
+  it('caps the multiplier', () => {
+    const ctx = createContext();
+    registerKills(ctx, 100);
+
+    assert.equal(ctx.combo.multiplier, 8);
+  });
+
+  it('keeps the combo while kills land inside the window', () => {
+    const ctx = createContext();
+    registerKills(ctx, 5);
+    ctx.now = COMBO_WINDOW - 1;
+    comboSystem(ctx);
+
+    assert.equal(ctx.combo.count, 5);
+    assert.equal(ctx.combo.multiplier, 2);
+  });
+
+  it('decays once the window since the last kill passes', () => {
+    const ctx = createContext();
+    registerKills(ctx, 5);
+    ctx.now = 1500;
+    registerKill(ctx);
+
+    // The window runs from the latest kill, not the first
+    ctx.now = COMBO_WINDOW;
+    comboSystem(ctx);
+    assert.equal(ctx.combo.count, 6);
+
+    ctx.now = 1500 + COMBO_WINDOW;
+    comboSystem(ctx);
+    assert.equal(ctx.combo.count, 0);
+    assert.equal(ctx.combo.multiplier, 1);
+    assert.equal(ctx.stats.maxCombo, 6);
+  });
+
+  it('records each multiplier change', () => {
+    const ctx = createContext();
+    registerKills(ctx, 5);
+    ctx.now = 100;
+    breakCombo(ctx);
+
+    assert.deepEqual(ctx.stats.multiplierHistory, [
+      { time: 0, multiplier: 2 },
+      { time: 100, multiplier: 1 }
+    ]);
+  });
+});
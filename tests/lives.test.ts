@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FIXED_TIMESTEP } from '@/lib/game/constants';
+import { GameSimulation, type GameSimulationOptions } from '@/lib/game/simulation';
+import { REVIVE_TIME } from '@/lib/game/systems/lives';
+
+const LIVES = { starting: 2, extraLifeAt: [1000], extraLifeEvery: 0 };
+
+function createSimulation(options: GameSimulationOptions = {}) {
+  const simulation = new GameSimulation({ lives: LIVES, ...options });
+  simulation.reset(1);
+  return simulation;
+}
+
+function run(simulation: GameSimulation, ms: number) {
+  for (let i = 0; i < Math.ceil(ms / FIXED_TIMESTEP); i++) simulation.tick(0);
+}
+
+describe('livesSystem', () => {
+  it('takes a life when a ship runs out of health and respawns it shielded', () => {
+    const simulation = createSimulation();
+    const [player] = simulation.players;
+    player.health.current = 0;
+    simulation.tick(0);
+
+    assert.deepEqual(simulation.lives.remaining, [1]);
+    assert.notEqual(player.playerControl.respawnAt, null);
+
+    run(simulation, 1500);
+    assert.equal(player.playerControl.respawnAt, null);
+    assert.equal(player.health.current, player.health.max);
+    assert.ok(player.health.invulnerableUntil > simulation.now());
+  });
+
+  it('ends the run once the last life is lost', () => {
+    const simulation = createSimulation({ lives: { ...LIVES, starting: 1 } });
+    const [player] = simulation.players;
+    player.health.current = 0;
+    simulation.tick(0);
+
+    assert.deepEqual(simulation.lives.remaining, [0]);
+    assert.equal(player.playerControl.respawnAt, Infinity);
+    assert.equal(simulation.isGameOver, true);
+  });
+
+  it('awards an extra life at each score threshold', () => {
+    const simulation = createSimulation();
+    simulation.stats.score = 1000;
+    simulation.tick(0);
+
+    assert.deepEqual(simulation.lives.remaining, [3]);
+    assert.equal(simulation.lives.extraLivesAwarded, 1);
+  });
+
+  it('draws co-op ships from one pool when lives are shared', () => {
+    const simulation = createSimulation({ players: { count: 2, sharedLives: true } });
+    assert.deepEqual(simulation.lives.remaining, [4]);
+
+    simulation.players[1].health.current = 0;
+    simulation.tick(0);
+
+    assert.deepEqual(simulation.lives.remaining, [3]);
+  });
+
+  it('lets a partner revive a ship that is out of lives', () => {
+    const simulation = createSimulation({
+      lives: { ...LIVES, starting: 1 },
+      players: { count: 2, sharedLives: false }
+    });
+    const [downed, partner] = simulation.players;
+    downed.health.current = 0;
+    simulation.tick(0);
+    assert.equal(downed.playerControl.respawnAt, Infinity);
+    assert.equal(simulation.isGameOver, false);
+
+    partner.transform.x = downed.transform.x;
+    partner.transform.y = downed.transform.y;
+    run(simulation, REVIVE_TIME + FIXED_TIMESTEP);
+
+    assert.deepEqual(simulation.lives.remaining, [1, 1]);
+
+    // With a life back, it respawns after the usual delay
+    simulation.tick(0);
+    assert.ok(Number.isFinite(downed.playerControl.respawnAt));
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { World } from '@/lib/game/ecs/world';
+import { DEFAULT_POOL_CAPACITY, createEntityPools } from '@/lib/game/prefabs';
+import { SeededRandom } from '@/lib/game/random';
+import type { SimulationContext } from '@/lib/game/systems/context';
+import { PITY_TIME, createLootStats, dropLoot } from '@/lib/game/systems/loot';
+
+// Loot rules' share of the context, with random drops turned off so only
+// guaranteed and pity drops happen
+function createContext() {
+  const world = new World();
+  return {
+    world,
+    pools: createEntityPools(world, DEFAULT_POOL_CAPACITY),
+    random: new SeededRandom(1),
+    difficulty: { dropRate: 0 },
+    spawner: { lastLootDrop: 0 },
+    stats: { loot: createLootStats() },
+    now: 0
+  } as unknown as SimulationContext;
+}
+
+function kill(ctx: SimulationContext, archetype: string, now: number) {
+  ctx.now = now;
+  dropLoot(ctx, { id: 0, active: true, archetype, transform: { x: 100, y: 100, prevX: 100, prevY: 100, width: 40, height: 40 } });
+}
+
+describe('dropLoot', () => {
+  it('holds back pity drops until the drought lasts long enough', () => {
+    const ctx = createContext();
+    kill(ctx, 'basic', PITY_TIME - 1);
+
+    assert.deepEqual(ctx.stats.loot.kills, { basic: 1 });
+    assert.deepEqual(ctx.stats.loot.drops, {});
+  });
+
+  it('forces a drop after the pity time and starts the drought over', () => {
+    const ctx = createContext();
+    kill(ctx, 'basic', PITY_TIME);
+    kill(ctx, 'basic', PITY_TIME + 1000);
+
+    assert.deepEqual(ctx.stats.loot.drops, { basic: 1 });
+    assert.equal(ctx.stats.loot.pityDrops, 1);
+    assert.equal(ctx.stats.loot.longestDrought, PITY_TIME);
+    assert.equal(ctx.spawner.lastLootDrop, PITY_TIME);
+  });
+
+  it('lets guaranteed drops through regardless of the drop rate and resets the pity timer', () => {
+    const ctx = createContext();
+    kill(ctx, 'tank', 10000);
+    kill(ctx, 'basic', PITY_TIME);
+
+    assert.deepEqual(ctx.stats.loot.drops, { tank: 1 });
+    assert.equal(ctx.stats.loot.pityDrops, 0);
+    assert.equal(ctx.spawner.lastLootDrop, 10000);
+  });
+
+  it('counts every pickup a drop spawns', () => {
+    const ctx = createContext();
+    kill(ctx, 'tank', 0);
+
+    const pickups = Object.values(ctx.stats.loot.pickups).reduce((sum, count) => sum + count, 0);
+    let spawned = 0;
+    ctx.pools.pickups.forEach(pickup => {
+      if (pickup.active) spawned++;
+    });
+    assert.equal(pickups, 1);
+    assert.equal(spawned, 1);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { POWER_UP_ARCHETYPES } from '@/lib/game/archetypes';
+import { GameSimulation } from '@/lib/game/simulation';
+import type { SimulationContext } from '@/lib/game/systems/context';
+import { collectPowerUp, powerUpStacks } from '@/lib/game/systems/power-ups';
+import type { PowerUpEffect, PowerUpType } from '@/lib/game/types';
+
+type Collector = Parameters<typeof collectPowerUp>[1];
+
+// A ship and just enough context to collect timed power-ups with
+function createCollector() {
+  const ctx = { now: 0 } as SimulationContext;
+  const player = { playerControl: { powerUps: [] as PowerUpEffect[] } } as Collector;
+  const collect = (type: PowerUpType, now: number) => {
+    ctx.now = now;
+    collectPowerUp(ctx, player, { type, duration: POWER_UP_ARCHETYPES[type].duration, weapon: '' });
+    return player.playerControl.powerUps.find(effect => effect.type === type)!;
+  };
+  return { player, collect };
+}
+
+describe('power-up stacking', () => {
+  it('refreshes the duration of refresh power-ups', () => {
+    const { collect } = createCollector();
+    collect('rapidFire', 0);
+    const effect = collect('rapidFire', 4000);
+
+    assert.deepEqual(effect, { type: 'rapidFire', duration: 10000, startTime: 4000, stacks: 1 });
+  });
+
+  it('adds the remaining time of extend power-ups, up to their cap', () => {
+    const { collect } = createCollector();
+    collect('shield', 0);
+    let effect = collect('shield', 2000);
+    assert.equal(effect.duration, 6000 + 8000);
+    assert.equal(effect.startTime, 2000);
+
+    collect('shield', 2000);
+    effect = collect('shield', 2000);
+    assert.equal(effect.duration, 8000 * 3);
+  });
+
+  it('levels up level power-ups and restarts their timer', () => {
+    const { player, collect } = createCollector();
+    collect('homing', 0);
+    collect('homing', 5000);
+    collect('homing', 6000);
+    const effect = collect('homing', 7000);
+
+    assert.equal(effect.stacks, 3);
+    assert.equal(effect.startTime, 7000);
+    assert.equal(powerUpStacks(player.playerControl.powerUps, 'homing', 7000 + 12000), 0);
+  });
+
+  it('adds a stack to stack power-ups without touching their timer', () => {
+    const { collect } = createCollector();
+    collect('drone', 0);
+    for (let i = 0; i < 5; i++) collect('drone', 1000 * i);
+    const effect = collect('drone', 9000);
+
+    assert.equal(effect.stacks, 4);
+    assert.equal(effect.startTime, 0);
+  });
+
+  it('keeps one effect per type', () => {
+    const { player, collect } = createCollector();
+    collect('damageUp', 0);
+    collect('scoreDouble', 0);
+    collect('damageUp', 100);
+
+    assert.deepEqual(player.playerControl.powerUps.map(effect => effect.type), ['damageUp', 'scoreDouble']);
+  });
+});
+
+describe('time slow', () => {
+  it('runs enemy time at half speed while active', () => {
+    const simulation = new GameSimulation();
+    simulation.reset(1);
+    simulation.players[0].playerControl.powerUps.push({ type: 'timeSlow', duration: 1000, startTime: 0, stacks: 1 });
+    for (let i = 0; i < 120; i++) simulation.tick(0);
+
+    assert.equal(Math.round(simulation.now()), 2000);
+    assert.equal(Math.round(simulation.enemyTime()), 1500);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SeededRandom, parseSeed } from '@/lib/game/random';
+
+describe('SeededRandom', () => {
+  it('produces the same sequence for a seed on every machine', () => {
+    const random = new SeededRandom(42);
+
+    assert.deepEqual(
+      [random.next(), random.next(), random.next()],
+      [0.6011037519201636, 0.44829055899754167, 0.8524657934904099]
+    );
+  });
+
+  it('starts the sequence over on reset', () => {
+    const random = new SeededRandom(7);
+    const first = Array.from({ length: 5 }, () => random.next());
+    random.reset();
+
+    assert.deepEqual(Array.from({ length: 5 }, () => random.next()), first);
+  });
+
+  it('keeps ints and ranges within their bounds', () => {
+    const random = new SeededRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const int = random.int(6);
+      assert.ok(Number.isInteger(int) && int >= 0 && int < 6);
+
+      const value = random.range(-2, 3);
+      assert.ok(value >= -2 && value < 3);
+    }
+  });
+});
+
+describe('parseSeed', () => {
+  it('uses numbers as-is and hashes words', () => {
+    assert.equal(parseSeed('123'), 123);
+    assert.equal(parseSeed('galaxy'), 2130426641);
+    assert.equal(parseSeed('galaxy'), parseSeed('galaxy'));
+  });
+
+  it('leaves a missing seed unset', () => {
+    assert.equal(parseSeed(''), undefined);
+    assert.equal(parseSeed(null), undefined);
+  });
+});
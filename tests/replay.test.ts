@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InputFlag } from '@/lib/game/input';
+import { ReplayCursor, ReplayRecorder, decodeReplay, encodeReplay, verifyReplay, type Replay } from '@/lib/game/replay';
+import { GameSimulation } from '@/lib/game/simulation';
+
+const SOLO = { count: 1, sharedLives: false };
+
+function recordReplay(): Replay {
+  const recorder = new ReplayRecorder(1234, 'hard', true, { count: 2, sharedLives: true });
+  for (let i = 0; i < 3; i++) recorder.record(0);
+  for (let i = 0; i < 2; i++) recorder.record(InputFlag.SHOOT | InputFlag.LEFT);
+  recorder.record(0);
+  return recorder.finish(4200);
+}
+
+describe('ReplayRecorder', () => {
+  it('run-length encodes held input', () => {
+    const replay = recordReplay();
+
+    assert.equal(replay.ticks, 6);
+    assert.deepEqual(replay.runs, [[0, 3], [InputFlag.SHOOT | InputFlag.LEFT, 2], [0, 1]]);
+  });
+});
+
+describe('ReplayCursor', () => {
+  it('plays every tick back in order', () => {
+    const cursor = new ReplayCursor(recordReplay());
+    const inputs: number[] = [];
+    while (!cursor.done) inputs.push(cursor.next());
+
+    assert.deepEqual(inputs, [0, 0, 0, InputFlag.SHOOT | InputFlag.LEFT, InputFlag.SHOOT | InputFlag.LEFT, 0]);
+    assert.equal(cursor.position, 6);
+  });
+});
+
+describe('encodeReplay and decodeReplay', () => {
+  it('round-trip a replay', () => {
+    const replay = recordReplay();
+
+    assert.deepEqual(decodeReplay(encodeReplay(replay)), replay);
+  });
+
+  it('round-trip a replay with no input', () => {
+    const replay = new ReplayRecorder(0, 'easy', false, SOLO).finish(0);
+
+    assert.deepEqual(decodeReplay(encodeReplay(replay)), replay);
+  });
+
+  it('reject other versions and malformed fields', () => {
+    const text = encodeReplay(recordReplay());
+    const fields = text.split('.');
+    const withField = (index: number, value: string) =>
+      fields.map((field, i) => (i === index ? value : field)).join('.');
+
+    assert.equal(decodeReplay(withField(0, 'v1')), null);
+    assert.equal(decodeReplay(withField(1, 'brutal')), null);
+    assert.equal(decodeReplay(withField(2, 'yes')), null);
+    assert.equal(decodeReplay(withField(3, '9')), null);
+    assert.equal(decodeReplay(withField(5, '!')), null);
+    assert.equal(decodeReplay(fields.slice(0, -1).join('.')), null);
+  });
+
+  it('reject runs that do not cover the recorded ticks', () => {
+    const replay = recordReplay();
+
+    assert.equal(decodeReplay(encodeReplay({ ...replay, ticks: replay.ticks + 1 })), null);
+    assert.equal(decodeReplay(encodeReplay({ ...replay, runs: [...replay.runs, [0, 0]] })), null);
+  });
+});
+
+describe('verifyReplay', () => {
+  function playRun(ticks: number) {
+    const simulation = new GameSimulation();
+    const recorder = new ReplayRecorder(99, 'normal', false, SOLO);
+    simulation.reset(99, 'normal', false, SOLO);
+    for (let tick = 0; tick < ticks && !simulation.isGameOver; tick++) {
+      const input = tick % 90 < 45 ? InputFlag.SHOOT | InputFlag.LEFT : InputFlag.SHOOT | InputFlag.RIGHT;
+      recorder.record(input);
+      simulation.tick(input);
+    }
+    return recorder.finish(simulation.stats.score);
+  }
+
+  it('accepts a replay that reproduces its score', () => {
+    assert.equal(verifyReplay(playRun(60 * 30)), true);
+  });
+
+  it('rejects a replay claiming a different score', () => {
+    const replay = playRun(60 * 30);
+
+    assert.equal(verifyReplay({ ...replay, score: replay.score + 100 }), false);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { UniformGrid, type Bounds } from '@/lib/game/uniform-grid';
+
+function createGrid() {
+  return new UniformGrid<Bounds>(50, 200, 200, box => box);
+}
+
+describe('UniformGrid', () => {
+  it('reports an item spanning several cells once', () => {
+    const grid = createGrid();
+    const wide = { x: 10, y: 10, width: 150, height: 120 };
+    grid.insert(wide);
+
+    assert.deepEqual(grid.query({ x: 0, y: 0, width: 200, height: 200 }), [wide]);
+  });
+
+  it('reports a spanning item once when the query starts past its first cell', () => {
+    const grid = createGrid();
+    const wide = { x: 10, y: 10, width: 150, height: 150 };
+    grid.insert(wide);
+
+    assert.deepEqual(grid.query({ x: 120, y: 120, width: 20, height: 20 }), [wide]);
+  });
+
+  it('leaves out items in shared cells that do not overlap the query', () => {
+    const grid = createGrid();
+    const near = { x: 5, y: 5, width: 10, height: 10 };
+    const far = { x: 35, y: 35, width: 10, height: 10 };
+    grid.insert(near);
+    grid.insert(far);
+
+    assert.deepEqual(grid.query({ x: 0, y: 0, width: 20, height: 20 }), [near]);
+  });
+
+  it('clamps items outside its area into the border cells', () => {
+    const grid = createGrid();
+    const offscreen = { x: -40, y: 250, width: 10, height: 10 };
+    grid.insert(offscreen);
+
+    assert.deepEqual(grid.query({ x: -50, y: 240, width: 30, height: 30 }), [offscreen]);
+  });
+
+  it('forgets items on clear', () => {
+    const grid = createGrid();
+    grid.insert({ x: 10, y: 10, width: 10, height: 10 });
+    grid.clear();
+
+    assert.deepEqual(grid.query({ x: 0, y: 0, width: 200, height: 200 }), []);
+  });
+});